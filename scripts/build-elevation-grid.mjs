@@ -0,0 +1,173 @@
+// scripts/build-elevation-grid.mjs
+//
+// Builds public/data/elevation-0.5deg.bin, the coarse offline elevation/bathymetry grid
+// read by src/lib/elevation.ts.
+//
+//   node scripts/build-elevation-grid.mjs <earth-topology.png> <earth-water.png>
+//
+// Inputs are the equirectangular maps shipped in the three-globe package (example/img):
+// - earth-topology.png: 8-bit grayscale land relief, 0 = sea level, 255 ≈ 6400 m
+// - earth-water.png:    RGB water mask, bright = water
+//
+// Neither has real bathymetry, so ocean depth is estimated from distance to the nearest
+// shore: continental shelf, then slope, then abyssal plain.
+//
+// Output layout: Int16 little-endian metres, 720 cols × 360 rows of 0.5° cells,
+// row 0 is the northernmost (89.75°N), col 0 is the westernmost (179.75°W).
+
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs'
+import { inflateSync } from 'node:zlib'
+import { dirname } from 'node:path'
+
+const COLS = 720
+const ROWS = 360
+const OUT = 'public/data/elevation-0.5deg.bin'
+const TOPO_MAX_M = 6400
+
+function decodePng(path) {
+  const buf = readFileSync(path)
+  let pos = 8
+  let width = 0, height = 0, colorType = 0
+  const idat = []
+  while (pos < buf.length) {
+    const len = buf.readUInt32BE(pos)
+    const type = buf.toString('ascii', pos + 4, pos + 8)
+    const data = buf.subarray(pos + 8, pos + 8 + len)
+    if (type === 'IHDR') {
+      width = data.readUInt32BE(0)
+      height = data.readUInt32BE(4)
+      if (data[8] !== 8 || data[12] !== 0) throw new Error(`${path}: only 8-bit non-interlaced PNGs are supported`)
+      colorType = data[9]
+    } else if (type === 'IDAT') {
+      idat.push(data)
+    }
+    pos += 12 + len
+  }
+  const channels = { 0: 1, 2: 3, 4: 2, 6: 4 }[colorType]
+  if (!channels) throw new Error(`${path}: unsupported color type ${colorType}`)
+
+  const raw = inflateSync(Buffer.concat(idat))
+  const stride = width * channels
+  const px = new Uint8Array(width * height * channels)
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)]
+    const line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1))
+    const out = px.subarray(y * stride, (y + 1) * stride)
+    const prev = y > 0 ? px.subarray((y - 1) * stride, y * stride) : new Uint8Array(stride)
+    for (let i = 0; i < stride; i++) {
+      const a = i >= channels ? out[i - channels] : 0
+      const b = prev[i]
+      const c = i >= channels ? prev[i - channels] : 0
+      let v = line[i]
+      if (filter === 1) v += a
+      else if (filter === 2) v += b
+      else if (filter === 3) v += (a + b) >> 1
+      else if (filter === 4) {
+        const p = a + b - c
+        const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c)
+        v += pa <= pb && pa <= pc ? a : pb <= pc ? b : c
+      }
+      out[i] = v & 0xff
+    }
+  }
+  return { width, height, channels, px }
+}
+
+// Mean of the first channel over the source pixels covering one output cell
+function cellMean(img, row, col) {
+  const x0 = Math.floor(col * img.width / COLS), x1 = Math.max(x0 + 1, Math.floor((col + 1) * img.width / COLS))
+  const y0 = Math.floor(row * img.height / ROWS), y1 = Math.max(y0 + 1, Math.floor((row + 1) * img.height / ROWS))
+  let sum = 0, n = 0
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      sum += img.px[(y * img.width + x) * img.channels]
+      n++
+    }
+  }
+  return sum / n
+}
+
+// Depth below sea level (m) at a given distance from shore (km)
+function oceanDepthM(shoreKm) {
+  if (shoreKm < 80) return 20 + 110 * shoreKm / 80                    // shelf down to ~130 m
+  if (shoreKm < 250) return 130 + 3370 * (shoreKm - 80) / 170          // slope and rise
+  return Math.min(5500, 3500 + 2000 * (shoreKm - 250) / 1000)         // abyssal plain
+}
+
+const [topoPath, waterPath] = process.argv.slice(2)
+if (!topoPath || !waterPath) {
+  console.error('usage: node scripts/build-elevation-grid.mjs <earth-topology.png> <earth-water.png>')
+  process.exit(1)
+}
+const topo = decodePng(topoPath)
+const water = decodePng(waterPath)
+
+const isWater = new Uint8Array(COLS * ROWS)
+const landM = new Float64Array(COLS * ROWS)
+for (let r = 0; r < ROWS; r++) {
+  for (let c = 0; c < COLS; c++) {
+    const i = r * COLS + c
+    isWater[i] = cellMean(water, r, c) > 127 ? 1 : 0
+    landM[i] = cellMean(topo, r, c) / 255 * TOPO_MAX_M
+  }
+}
+
+// Multi-source Dijkstra over the grid for distance to the nearest land cell (km)
+const KM_PER_DEG = 111.32
+const cellKm = (r) => ({
+  ns: 0.5 * KM_PER_DEG,
+  ew: 0.5 * KM_PER_DEG * Math.max(0.01, Math.cos((89.75 - r * 0.5) * Math.PI / 180)),
+})
+const dist = new Float64Array(COLS * ROWS).fill(Infinity)
+const heap = []
+const push = (d, i) => {
+  heap.push([d, i])
+  let k = heap.length - 1
+  while (k > 0) {
+    const p = (k - 1) >> 1
+    if (heap[p][0] <= heap[k][0]) break
+    ;[heap[p], heap[k]] = [heap[k], heap[p]]
+    k = p
+  }
+}
+const pop = () => {
+  const top = heap[0]
+  const last = heap.pop()
+  if (heap.length) {
+    heap[0] = last
+    let k = 0
+    for (;;) {
+      const l = 2 * k + 1, rr = l + 1
+      let m = k
+      if (l < heap.length && heap[l][0] < heap[m][0]) m = l
+      if (rr < heap.length && heap[rr][0] < heap[m][0]) m = rr
+      if (m === k) break
+      ;[heap[m], heap[k]] = [heap[k], heap[m]]
+      k = m
+    }
+  }
+  return top
+}
+for (let i = 0; i < COLS * ROWS; i++) if (!isWater[i]) { dist[i] = 0; push(0, i) }
+while (heap.length) {
+  const [d, i] = pop()
+  if (d > dist[i]) continue
+  const r = Math.floor(i / COLS), c = i % COLS
+  const { ns, ew } = cellKm(r)
+  const steps = [[-1, 0, ns], [1, 0, ns], [0, -1, ew], [0, 1, ew]]
+  for (const [dr, dc, km] of steps) {
+    const nr = r + dr
+    if (nr < 0 || nr >= ROWS) continue
+    const j = nr * COLS + ((c + dc + COLS) % COLS)
+    if (d + km < dist[j]) { dist[j] = d + km; push(d + km, j) }
+  }
+}
+
+const out = Buffer.alloc(COLS * ROWS * 2)
+for (let i = 0; i < COLS * ROWS; i++) {
+  const m = isWater[i] ? -oceanDepthM(dist[i]) : Math.max(1, landM[i])
+  out.writeInt16LE(Math.round(m), i * 2)
+}
+mkdirSync(dirname(OUT), { recursive: true })
+writeFileSync(OUT, out)
+console.log(`wrote ${OUT} (${COLS}×${ROWS}, ${out.length} bytes)`)
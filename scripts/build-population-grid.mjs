@@ -0,0 +1,159 @@
+// scripts/build-population-grid.mjs
+//
+// Builds the coarse offline population grids read by src/lib/population.ts:
+// - public/data/population-0.5deg.bin: people per km²
+// - public/data/region-0.5deg.bin: World Bank region of each cell, for exposed-value lookups
+//
+//   node scripts/build-population-grid.mjs <ne_110m_admin_0_countries.geojson>
+//
+// Input is the Natural Earth 1:110m country layer (shipped in the three-globe package,
+// example/country-polygons), whose POP_EST gives each country's population and REGION_WB its region.
+// Run scripts/build-elevation-grid.mjs first: its grid is used to spread each country's
+// population over its cells, favouring lowland and coast over mountains, ice and the far north.
+//
+// Output layout: 720 cols × 360 rows of 0.5° cells, row 0 is the northernmost (89.75°N),
+// col 0 is the westernmost (179.75°W).
+// - population: Float32 little-endian people per km²
+// - region: Uint8 index into REGIONS + 1; sea cells take the region of the nearest land
+
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs'
+import { dirname } from 'node:path'
+
+const COLS = 720
+const ROWS = 360
+const STEP = 0.5
+const ELEVATION = 'public/data/elevation-0.5deg.bin'
+const OUT = 'public/data/population-0.5deg.bin'
+const REGION_OUT = 'public/data/region-0.5deg.bin'
+
+// Same order as WORLD_REGIONS in src/lib/population.ts
+const REGIONS = [
+  'North America',
+  'Europe & Central Asia',
+  'East Asia & Pacific',
+  'Latin America & Caribbean',
+  'Middle East & North Africa',
+  'South Asia',
+  'Sub-Saharan Africa',
+  'Antarctica',
+]
+const KM_PER_DEG = 111.32
+
+const cellLat = (r) => 90 - STEP / 2 - r * STEP
+const cellLon = (c) => -180 + STEP / 2 + c * STEP
+const cellAreaKm2 = (r) => (STEP * KM_PER_DEG) ** 2 * Math.cos(cellLat(r) * Math.PI / 180)
+
+// Relative share of a country's people that a cell attracts
+function cellWeight(elevM, lat, nearCoast) {
+  if (elevM <= 0) return 0
+  if (Math.abs(lat) >= 60 && elevM >= 1000) return 0.001             // ice sheets
+  let w = 1 / Math.pow(1 + elevM / 500, 1.5)                         // people favour lowland
+  if (nearCoast) w *= 2.5                                            // and coasts
+  if (Math.abs(lat) > 60) w *= 0.1                                   // and milder climates
+  return w
+}
+
+// Even-odd ray test against every ring (outer rings and holes alike)
+function insidePolygon(rings, lon, lat) {
+  let inside = false
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i]
+      const [xj, yj] = ring[j]
+      if ((yi > lat) !== (yj > lat) && lon < (xj - xi) * (lat - yi) / (yj - yi) + xi) inside = !inside
+    }
+  }
+  return inside
+}
+
+const [countriesPath] = process.argv.slice(2)
+if (!countriesPath) {
+  console.error('usage: node scripts/build-population-grid.mjs <ne_110m_admin_0_countries.geojson>')
+  process.exit(1)
+}
+const countries = JSON.parse(readFileSync(countriesPath, 'utf8')).features
+const elevBuf = readFileSync(ELEVATION)
+const elevation = new Int16Array(elevBuf.buffer, elevBuf.byteOffset, COLS * ROWS)
+
+const nearCoast = new Uint8Array(COLS * ROWS)
+for (let r = 0; r < ROWS; r++) {
+  for (let c = 0; c < COLS; c++) {
+    for (let dr = -1; dr <= 1; dr++) {
+      for (let dc = -1; dc <= 1; dc++) {
+        const nr = Math.min(ROWS - 1, Math.max(0, r + dr))
+        if (elevation[nr * COLS + (c + dc + COLS) % COLS] < 0) nearCoast[r * COLS + c] = 1
+      }
+    }
+  }
+}
+
+const density = new Float32Array(COLS * ROWS)
+const region = new Uint8Array(COLS * ROWS)
+let placed = 0
+for (const f of countries) {
+  const pop = f.properties.POP_EST
+  const regionCode = REGIONS.indexOf(f.properties.REGION_WB) + 1
+  const polygons = f.geometry.type === 'Polygon' ? [f.geometry.coordinates] : f.geometry.coordinates
+
+  const cells = []
+  for (const rings of polygons) {
+    let west = Infinity, east = -Infinity, south = Infinity, north = -Infinity
+    for (const [x, y] of rings[0]) {
+      west = Math.min(west, x); east = Math.max(east, x)
+      south = Math.min(south, y); north = Math.max(north, y)
+    }
+    const r0 = Math.max(0, Math.floor((90 - north) / STEP)), r1 = Math.min(ROWS - 1, Math.floor((90 - south) / STEP))
+    const c0 = Math.max(0, Math.floor((west + 180) / STEP)), c1 = Math.min(COLS - 1, Math.floor((east + 180) / STEP))
+    const before = cells.length
+    for (let r = r0; r <= r1; r++) {
+      for (let c = c0; c <= c1; c++) {
+        if (insidePolygon(rings, cellLon(c), cellLat(r))) cells.push(r * COLS + c)
+      }
+    }
+    // Islands smaller than a cell still get the cell under their first vertex
+    if (cells.length === before) {
+      const [x, y] = rings[0][0]
+      cells.push(Math.min(ROWS - 1, Math.floor((90 - y) / STEP)) * COLS + Math.min(COLS - 1, Math.floor((x + 180) / STEP)))
+    }
+  }
+
+  for (const i of cells) region[i] = regionCode
+  if (!(pop > 0)) continue
+
+  const weights = cells.map(i => {
+    const r = Math.floor(i / COLS)
+    return cellWeight(elevation[i], cellLat(r), nearCoast[i])
+  })
+  let total = weights.reduce((a, b) => a + b, 0)
+  if (total <= 0) {
+    weights.fill(1)
+    total = weights.length
+  }
+  cells.forEach((i, k) => {
+    const people = pop * weights[k] / total
+    density[i] += people / cellAreaKm2(Math.floor(i / COLS))
+    placed += people
+  })
+}
+
+// Breadth-first fill so every sea cell takes the region of the nearest country
+const queue = []
+region.forEach((code, i) => { if (code) queue.push(i) })
+for (let q = 0; q < queue.length; q++) {
+  const i = queue[q]
+  const r = Math.floor(i / COLS), c = i % COLS
+  const neighbours = [r > 0 ? i - COLS : -1, r < ROWS - 1 ? i + COLS : -1, r * COLS + (c + 1) % COLS, r * COLS + (c + COLS - 1) % COLS]
+  for (const j of neighbours) {
+    if (j < 0 || region[j]) continue
+    region[j] = region[i]
+    queue.push(j)
+  }
+}
+
+const out = Buffer.alloc(COLS * ROWS * 4)
+density.forEach((d, i) => out.writeFloatLE(d, i * 4))
+mkdirSync(dirname(OUT), { recursive: true })
+writeFileSync(OUT, out)
+writeFileSync(REGION_OUT, region)
+console.log(`wrote ${OUT} (${COLS}×${ROWS}, ${out.length} bytes, ${(placed / 1e9).toFixed(2)} billion people)`)
+console.log(`wrote ${REGION_OUT} (${COLS}×${ROWS}, ${region.length} bytes)`)
@@ -5,14 +5,18 @@ import Effects from './scene/Effects'
 import Asteroid from './scene/Asteroid'
 import ImpactOverlays from './overlays/ImpactOverlays'
 import ControlPanel from './ui/ControlPanel'
+import MitigationPanel from './ui/MitigationPanel'
 import ImpactMap from './ui/ImpactMap'
 import { useSimStore } from './state/useSimStore'
+import type { Spread } from './lib/ensemble'
 import CameraRig from './scene/CameraRig'
 import NasaPanel from './ui/nasaPanel'
 import QuizMode from './modes/QuizMode'
 import LearnMode from './modes/LearnMode'
 import Starfield from './scene/Starfield'
 import QuizLaunchPrompt from './ui/QuizLaunchPrompt'
+import SolarSystem from './scene/SolarSystem'
+import SolarViewPanel from './ui/SolarViewPanel'
 
 export default function App() {
   const mode = useSimStore(s => s.mode)
@@ -21,6 +25,7 @@ export default function App() {
   const learnVisible = useSimStore(s => s.learnVisible)
   const running = useSimStore(s => s.running)
   const time = useSimStore(s => s.time)
+  const solarView = useSimStore(s => s.viewMode === 'solar' && s.nasaAsteroidData?.orbital.elements != null)
 
   return (
     <div className="app-shell">
@@ -29,10 +34,16 @@ export default function App() {
           <color attach="background" args={['#05070a']} />
           <Suspense fallback={null}>
             <Starfield />
-            <Globe />
+            {solarView ? (
+              <SolarSystem />
+            ) : (
+              <>
+                <Globe />
+                {mode !== 'story' && <Asteroid />}
+                <ImpactOverlays />
+              </>
+            )}
             <Effects />
-            {mode !== 'story' && <Asteroid />}
-            <ImpactOverlays />
           </Suspense>
         </Canvas>
       </div>
@@ -43,6 +54,8 @@ export default function App() {
         <ControlPanel />
         <StatsPanel />
         <NasaPanel />
+        {mode === 'defend' && <MitigationPanel />}
+        {solarView && <SolarViewPanel />}
         <div className="footer-hint">Left-drag: rotate • Mouse wheel: zoom • Right-drag: pan</div>
       </div>
 
@@ -63,6 +76,9 @@ function TopBar() {
   const quizVisible = useSimStore(s => s.quizVisible)
   const learnVisible = useSimStore(s => s.learnVisible)
   const openLearn = useSimStore(s => s.openLearn)
+  const viewMode = useSimStore(s => s.viewMode)
+  const setViewMode = useSimStore(s => s.setViewMode)
+  const hasOrbit = useSimStore(s => s.nasaAsteroidData?.orbital.elements != null)
 
   return (
     <div className="topbar">
@@ -72,7 +88,7 @@ function TopBar() {
         {learnVisible && <span style={{ color: '#ffd700', marginLeft: 8 }}>• LEARN</span>}
       </span>
       <div className="mode-switch">
-        {(['scenario', 'quiz', 'learn'] as const).map(m => (
+        {(['scenario', 'defend', 'quiz', 'learn'] as const).map(m => (
           <button
             key={m}
             className={'panel ' + (mode === m ? 'active' : '')}
@@ -81,23 +97,57 @@ function TopBar() {
             {m.toUpperCase()}
           </button>
         ))}
+        {hasOrbit && (
+          <button
+            className={'panel ' + (viewMode === 'solar' ? 'active' : '')}
+            onClick={() => setViewMode(viewMode === 'solar' ? 'earth' : 'solar')}
+          >
+            {viewMode === 'solar' ? 'EARTH VIEW' : 'SOLAR SYSTEM'}
+          </button>
+        )}
       </div>
     </div>
   )
 }
 
+// "median (5–95%)" for one ensemble output
+const fmtSpread = (s: Spread, digits: number) =>
+  `${s.median.toFixed(digits)} (${s.p5.toFixed(digits)}–${s.p95.toFixed(digits)})`
+
 function StatsPanel() {
-  const { speed, size, density, eta, energyTNT, craterKm } = useSimStore(s => s.readouts)
+  const { speed, size, density, eta, energyTNT, airburstAltKm, groundEnergyMt, craterKm } = useSimStore(s => s.readouts)
+  const ensemble = useSimStore(s => s.ensemble)
+  const { speedSource, vInfinityKms, speedClamped } = useSimStore(s => ({
+    speedSource: s.speedSource,
+    vInfinityKms: s.vInfinityKms,
+    speedClamped: s.speedClamped
+  }))
   return (
     <div className="panel stat-panel">
       <div style={{ display: 'grid', gap: 8 }}>
         <div className="badge">Live Stats</div>
-        <div className="row"><span className="label">Speed</span><span className="value">{speed.toFixed(1)} km/s</span></div>
+        <div className="row"><span className="label">Speed</span><span className="value">{speed.toFixed(1)} km/s{speedClamped ? ' (clamped)' : ''}</span></div>
+        <div className="row">
+          <span className="label">Speed Source</span>
+          <span className="value">{speedSource === 'nasa-entry' && vInfinityKms != null ? `Entry speed from v∞ ${vInfinityKms.toFixed(1)} km/s` : 'Manual'}</span>
+        </div>
         <div className="row"><span className="label">Size</span><span className="value">{size.toFixed(1)} m</span></div>
         <div className="row"><span className="label">Density</span><span className="value">{density.toFixed(0)} kg/m³</span></div>
         <div className="row"><span className="label">ETA</span><span className="value">{eta.toFixed(1)} s</span></div>
         <div className="row"><span className="label">Energy</span><span className="value">{energyTNT.toFixed(2)} Mt TNT</span></div>
+        <div className="row"><span className="label">Airburst</span><span className="value">{airburstAltKm != null ? `${airburstAltKm.toFixed(1)} km altitude` : 'None (reaches ground)'}</span></div>
+        <div className="row"><span className="label">Ground Energy</span><span className="value">{groundEnergyMt.toFixed(2)} Mt TNT</span></div>
         <div className="row"><span className="label">Crater Size</span><span className="value">{craterKm.toFixed(2)} km</span></div>
+        {ensemble && (
+          <>
+            <div className="badge">Ensemble · {ensemble.runs} runs, median (5–95%)</div>
+            <div className="row"><span className="label">Energy</span><span className="value">{fmtSpread(ensemble.energyMt, 1)} Mt</span></div>
+            <div className="row"><span className="label">Crater</span><span className="value">{fmtSpread(ensemble.craterKm, 2)} km</span></div>
+            <div className="row"><span className="label">5 psi Blast</span><span className="value">{fmtSpread(ensemble.blast5psiKm, 1)} km</span></div>
+            <div className="row"><span className="label">1 psi Blast</span><span className="value">{fmtSpread(ensemble.blast1psiKm, 1)} km</span></div>
+            <div className="row"><span className="label">Casualties</span><span className="value">{fmtSpread(ensemble.casualties, 0)}</span></div>
+          </>
+        )}
         <div className="legend small">
           <span>Blast</span><span>Seismic</span><span>Tsunami</span>
         </div>
@@ -0,0 +1,121 @@
+// src/Fetching/fetchNasa.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fixtureFetch } from '../test/fixtureFetch';
+import { configureProviders, createProviders } from '../providers/registry';
+import {
+  fetchAsteroidDetails,
+  fetchAsteroidFeed,
+  findAsteroid,
+  isProvisionalDesignation,
+  namesOf,
+  processAsteroidData,
+  type AsteroidListItem,
+  type NeoDetail
+} from './fetchNasa';
+
+beforeEach(() => {
+  vi.stubGlobal('fetch', vi.fn(fixtureFetch));
+  configureProviders(createProviders('fixture'));
+});
+afterEach(() => { vi.unstubAllGlobals(); });
+
+describe('fetchAsteroidFeed', () => {
+  it('lists each recorded object once, on its own date, across 7-day windows', async () => {
+    const items = await fetchAsteroidFeed('2036-03-01', '2036-03-31');
+    expect(items.map(a => [a.name, a.closeApproachDate])).toEqual([['99942 Apophis (2004 MN4)', '2036-03-27']]);
+    expect(fetch).toHaveBeenCalledTimes(5);
+  });
+
+  it('is empty when nothing was recorded in the range', async () => {
+    expect(await fetchAsteroidFeed('2024-01-01', '2024-01-07')).toEqual([]);
+  });
+
+  it('rejects a range longer than the feed allows, without fetching', async () => {
+    await expect(fetchAsteroidFeed('2036-03-01', '2036-04-01')).rejects.toThrow(/too long/);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('processAsteroidData', () => {
+  it('keeps only the approaches to Earth', async () => {
+    const eros = await fetchAsteroidDetails('2000433');
+    const earth = eros.close_approach_data;
+    const mars = { ...earth[0], close_approach_date: '2040-06-01', close_approach_date_full: '2040-06-01 00:00', orbiting_body: 'Mars' };
+    const info = processAsteroidData({ ...eros, close_approach_data: [...earth, mars] });
+    expect(info.approaches.map(a => a.date)).toEqual(earth.map(ca => ca.close_approach_date).sort());
+    expect(info.closeApproach.date).not.toBe('2040-06-01');
+  });
+});
+
+describe('namesOf', () => {
+  it('answers to the full name, the name, the number and the designation', () => {
+    expect(namesOf({ name: '99942 Apophis (2004 MN4)' })).toEqual(['99942apophis2004mn4', '99942apophis', '2004mn4', '99942', 'apophis']);
+    expect(namesOf({ name: '(2024 YR4)' })).toEqual(['2024yr4', '2024yr4']);
+  });
+});
+
+describe('isProvisionalDesignation', () => {
+  it('tells designations from numbers, ids and names', () => {
+    for (const q of ['2024 YR4', '(2024 YR4)', '1999 RQ36', '2024yr4']) expect(isProvisionalDesignation(q)).toBe(true);
+    for (const q of ['99942', '99942 Apophis', 'Apophis', '2024', '54509621']) expect(isProvisionalDesignation(q)).toBe(false);
+  });
+});
+
+describe('findAsteroid', () => {
+  const apophis = { id: '2099942', name: '99942 Apophis (2004 MN4)' } as NeoDetail;
+  const eros = { id: '2000433', name: '433 Eros (A898 PA)' } as NeoDetail;
+  const yr4 = { id: '54509621', name: '(2024 YR4)' } as NeoDetail;
+
+  // Lookups by id and one browse page holding Eros, out of many
+  const stubNeos = () => {
+    const byId = new Map([apophis, eros, yr4].map(n => [n.id, n]));
+    const neos = {
+      feed: vi.fn(),
+      neo: vi.fn(async (id: string) => {
+        const neo = byId.get(id);
+        if (!neo) throw new Error('404');
+        return neo;
+      }),
+      browse: vi.fn(async (page: number, size: number) => ({
+        page: { size, total_elements: 2000 * size, total_pages: 2000, number: page },
+        near_earth_objects: page === 0 ? [eros] : [],
+      })),
+    };
+    configureProviders({ neo: neos });
+    return neos;
+  };
+
+  it('looks numbers, ids and well-known names up directly', async () => {
+    const neos = stubNeos();
+    expect(await findAsteroid('99942')).toBe(apophis);
+    expect(await findAsteroid('2099942')).toBe(apophis);
+    expect(await findAsteroid('Apophis')).toBe(apophis);
+    expect(await findAsteroid('54509621')).toBe(yr4);
+    expect(neos.browse).not.toHaveBeenCalled();
+  });
+
+  it('finds a provisional designation in the loaded feed', async () => {
+    const neos = stubNeos();
+    const known = [{ id: yr4.id, name: yr4.name, closeApproachDate: '2032-12-22' } as AsteroidListItem];
+    expect(await findAsteroid('2024 YR4', known)).toBe(yr4);
+    expect(neos.neo).toHaveBeenCalledWith('54509621');
+    expect(neos.browse).not.toHaveBeenCalled();
+  });
+
+  it('spends no requests on a provisional designation it cannot look up', async () => {
+    const neos = stubNeos();
+    expect(await findAsteroid('2024 YR4')).toBeNull();
+    expect(neos.neo).not.toHaveBeenCalled();
+    expect(neos.browse).not.toHaveBeenCalled();
+  });
+
+  it('browses for other names, stopping at the first match or after ten pages', async () => {
+    const neos = stubNeos();
+    expect(await findAsteroid('A898 PA')).toBe(eros);
+    expect(neos.browse).toHaveBeenCalledTimes(1);
+
+    neos.browse.mockClear();
+    expect(await findAsteroid('Nonexistent')).toBeNull();
+    expect(neos.browse).toHaveBeenCalledTimes(10);
+  });
+});
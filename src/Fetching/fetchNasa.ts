@@ -1,7 +1,9 @@
 
 
-const API_KEY = import.meta.env.VITE_NASA_API_KEY ?? 'DEMO_KEY';
-const BASE_URL = 'https://api.nasa.gov/neo/rest/v1';
+import { getProviders } from '../providers/registry';
+import { KM_PER_AU, findClosestApproach, julianDate, type GeocentricApproach, type OrbitalElements } from '../lib/orbit';
+import { alongTrackSigmaKm, earthMoidAU, impactProbability } from '../lib/risk';
+
 /*
 object type to save each data
 */
@@ -77,6 +79,12 @@ export type AsteroidListItem = {
   id: string;
   name: string;
   isPotentiallyHazardous: boolean;
+  // The approach the feed lists it for
+  closeApproachDate: string;
+  diameterMinM: number;
+  diameterMaxM: number;
+  missDistanceKm: number | null;
+  speedKms: number | null;
 };
 
 // NEW: Better organized structure for frontend
@@ -127,21 +135,34 @@ export type ProcessedAsteroidInfo = {
     orbitUncertainty: string | null;
     dataArcDays: number | null;
     observationsUsed: number | null;
+    epochJd: number | null;
+    // Unrounded elements for propagation; null when any is missing or the orbit is not elliptic
+    elements: OrbitalElements | null;
   };
   
   // Close Approach Info
   closeApproach: {
     date: string | null;
     missDistanceKm: number | null;
+    // Same approach found by propagating the elements: real v∞ and arrival direction
+    propagated: GeocentricApproach | null;
   };
+
+  // Every close approach to Earth NASA lists, oldest first
+  approaches: Array<{
+    date: string;
+    missDistanceKm: number | null;
+    speedKms: number | null;
+  }>;
   
   // Impact Risk Assessment
   impactRisk: {
-    probability: number | null; // 0-1 scale
-    riskLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'UNKNOWN';
+    probability: number | null; // 0-1 scale, at the next close approach
+    moidAU: number | null;      // Earth minimum orbit intersection distance
     nextCloseApproach: {
       date: string | null;
       missDistanceKm: number | null;
+      speedKms: number | null;
     };
     yearsUntilNextApproach: number | null;
   };
@@ -151,24 +172,74 @@ export type ProcessedAsteroidInfo = {
 fetching data from NASA api and put those data into the objects 
 */ 
 
+// NeoWs answers at most 7 days per feed request
+export const FEED_MAX_DAYS = 7;
+// Longest range fetched in one go, as consecutive feed windows
+export const FEED_MAX_RANGE_DAYS = 31;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toYmd = (t: number) => new Date(t).toISOString().slice(0, 10);
+const ymdTime = (ymd: string) => Date.parse(ymd + 'T00:00:00Z');
+
+/** Shift a YYYY-MM-DD date by whole days */
+export function addDays(ymd: string, days: number): string {
+  return toYmd(ymdTime(ymd) + days * DAY_MS);
+}
+
+/** Number of days from `start` to `end`, both included */
+export function daysInRange(start: string, end: string): number {
+  return Math.round((ymdTime(end) - ymdTime(start)) / DAY_MS) + 1;
+}
+
 export async function fetchAsteroidList(date: string): Promise<AsteroidListItem[]> {
-  const best_url = `${BASE_URL}/feed?start_date=${date}&end_date=${date}&api_key=${API_KEY}`;
-  
-  const response = await fetch(best_url);
-  if (!response.ok) {
-    throw new Error(`Failed to fetch asteroid list: ${response.status} ${response.statusText}`);
-  } // if doesnt work throw an error
-  
-  const data = await response.json();
-  const neos = data.near_earth_objects?.[date] || [];
-  // data is the reponse of json 
-  // neo will be the object of this function extracting data from  
-
-  return neos.map((neo: any) => ({
-    id: neo.id,
-    name: neo.name,
-    isPotentiallyHazardous: neo.is_potentially_hazardous_asteroid,
-  }));
+  return fetchAsteroidFeed(date, date);
+}
+
+/**
+ * Every NEO passing Earth between two dates (both included).
+ * The range is paged through in windows of FEED_MAX_DAYS; longer than FEED_MAX_RANGE_DAYS is an error.
+ * An object appears once per day it is listed on.
+ */
+export async function fetchAsteroidFeed(startDate: string, endDate: string): Promise<AsteroidListItem[]> {
+  const days = daysInRange(startDate, endDate);
+  if (days > FEED_MAX_RANGE_DAYS) {
+    throw new Error(`Feed range too long: ${days} days (at most ${FEED_MAX_RANGE_DAYS})`);
+  }
+  if (!(days > 0)) return [];
+
+  const items: AsteroidListItem[] = [];
+  const seen = new Set<string>();
+  // One window at a time: the DEMO_KEY rate limit punishes bursts
+  for (let offset = 0; offset < days; offset += FEED_MAX_DAYS) {
+    const from = addDays(startDate, offset);
+    const to = addDays(startDate, Math.min(days, offset + FEED_MAX_DAYS) - 1);
+    // the NEO provider throws if the feed can't be loaded
+    const data = await getProviders().neo.feed(from, to);
+
+    for (const [date, neos] of Object.entries(data.near_earth_objects ?? {})) {
+      for (const neo of neos) {
+        const key = `${neo.id}@${date}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const approach = neo.close_approach_data.find(ca => ca.close_approach_date === date) ?? neo.close_approach_data[0];
+        const missKm = approach ? parseFloat(approach.miss_distance.kilometers) : NaN;
+        const speedKps = approach ? parseFloat(approach.relative_velocity.kilometers_per_second) : NaN;
+        items.push({
+          id: neo.id,
+          name: neo.name,
+          isPotentiallyHazardous: neo.is_potentially_hazardous_asteroid,
+          closeApproachDate: date,
+          diameterMinM: neo.estimated_diameter.meters.estimated_diameter_min,
+          diameterMaxM: neo.estimated_diameter.meters.estimated_diameter_max,
+          missDistanceKm: Number.isFinite(missKm) ? missKm : null,
+          speedKms: Number.isFinite(speedKps) ? speedKps : null,
+        });
+      }
+    }
+  }
+  return items;
 }
 
 /**
@@ -177,14 +248,132 @@ export async function fetchAsteroidList(date: string): Promise<AsteroidListItem[
  * @returns Detailed asteroid data
  */
 export async function fetchAsteroidDetails(asteroidId: string): Promise<NeoDetail> {
-  const best_url = `${BASE_URL}/neo/${asteroidId}?api_key=${API_KEY}`;
-  
-  const response = await fetch(best_url);
-  if (!response.ok) {
-    throw new Error(`Failed to fetch asteroid details: ${response.status} ${response.statusText}`);
+  return getProviders().neo.neo(asteroidId);
+}
+
+// Well-known named NEOs, so their names resolve without browsing the whole catalogue
+const KNOWN_NEO_NUMBERS: Record<string, number> = {
+  eros: 433,
+  ganymed: 1036,
+  amor: 1221,
+  icarus: 1566,
+  geographos: 1620,
+  apollo: 1862,
+  florence: 3122,
+  phaethon: 3200,
+  toutatis: 4179,
+  itokawa: 25143,
+  didymos: 65803,
+  apophis: 99942,
+  bennu: 101955,
+  ryugu: 162173,
+  kamooalewa: 469219,
+};
+
+// Browse pages scanned for a name before giving up (the catalogue is ~2000 pages)
+const SEARCH_BROWSE_PAGES = 10;
+const SEARCH_BROWSE_SIZE = 20;
+
+// "2024 YR4", "(2024 YR4)" and "2024yr4" all compare equal
+const normalizeName = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// NASA id of a numbered asteroid (JPL SPK-ID)
+const spkIdForNumber = (n: number) => String(n < 1_000_000 ? 2_000_000 + n : 20_000_000 + n);
+
+/** "2024 YR4", "(1999 RQ36)", "2024yr4": a provisional designation, not an asteroid number */
+export const isProvisionalDesignation = (q: string) => /^\(?\d{4}\s*[a-z]{2}\d*\)?$/i.test(q.trim());
+
+/**
+ * Every way an object can be asked for: "99942 Apophis (2004 MN4)" answers to
+ * "99942 Apophis", "Apophis", "99942" and "2004 MN4".
+ */
+export function namesOf(neo: { name: string; designation?: string }): string[] {
+  const names = [neo.name, neo.name.replace(/\s*\(.*\)\s*$/, '')];
+  const provisional = neo.name.match(/\(([^)]+)\)/)?.[1];
+  if (provisional) names.push(provisional);
+  const numbered = neo.name.match(/^(\d+)\s+(.+?)(\s*\(|$)/);
+  if (numbered) names.push(numbered[1], numbered[2]);
+  if (neo.designation) names.push(neo.designation);
+  return names.map(normalizeName).filter(Boolean);
+}
+
+const matchesName = (neo: { name: string; designation?: string }, query: string) =>
+  namesOf(neo).includes(normalizeName(query));
+
+async function lookupOrNull(id: string): Promise<NeoDetail | null> {
+  try {
+    return await fetchAsteroidDetails(id);
+  } catch {
+    return null;
   }
-  
-  return await response.json();
+}
+
+/**
+ * Resolve a name, number or designation ("Apophis", "99942", "2024 YR4") to a NEO record.
+ * Tries, in order:
+ * 1) a number: the lookup endpoint, as an asteroid number or a NASA id
+ * 2) a well-known name
+ * 3) the already loaded feed (`known`)
+ * 4) the first SEARCH_BROWSE_PAGES pages of the browse endpoint, for names only: browse runs in
+ *    NASA id order and unnumbered objects (ids from 3000000) come after every numbered one, so a
+ *    provisional designation is never in those pages, and NeoWs cannot look one up without its id
+ * @returns the NEO, or null when nothing matches
+ */
+export async function findAsteroid(query: string, known: AsteroidListItem[] = []): Promise<NeoDetail | null> {
+  const q = query.trim();
+  if (!q) return null;
+
+  const provisional = isProvisionalDesignation(q);
+  const leadingNumber = provisional ? undefined : q.match(/^\(?(\d+)\)?(\s|$)/)?.[1];
+  if (leadingNumber) {
+    const n = parseInt(leadingNumber, 10);
+    const ids = leadingNumber.length >= 7 ? [leadingNumber, spkIdForNumber(n)] : [spkIdForNumber(n), leadingNumber];
+    for (const id of ids) {
+      const neo = await lookupOrNull(id);
+      if (neo) return neo;
+    }
+  }
+
+  const knownNumber = KNOWN_NEO_NUMBERS[normalizeName(q)];
+  if (knownNumber) {
+    const neo = await lookupOrNull(spkIdForNumber(knownNumber));
+    if (neo) return neo;
+  }
+
+  const inFeed = known.find(item => matchesName(item, q));
+  if (inFeed) {
+    const neo = await lookupOrNull(inFeed.id);
+    if (neo) return neo;
+  }
+
+  if (provisional) return null;
+
+  const neos = getProviders().neo;
+  for (let page = 0; page < SEARCH_BROWSE_PAGES; page++) {
+    const result = await neos.browse(page, SEARCH_BROWSE_SIZE);
+    const match = result.near_earth_objects.find(neo => matchesName(neo, q));
+    if (match) return match;
+    if (page + 1 >= result.page.total_pages) break;
+  }
+  return null;
+}
+
+/** Why `findAsteroid` came back empty, for the search box */
+export function describeSearchMiss(query: string): string {
+  const q = query.trim();
+  if (isProvisionalDesignation(q)) {
+    return `"${q}" is not in the loaded feed. NASA looks unnumbered objects up by their SPK-ID only: load a feed range that includes it, or search by its SPK-ID.`;
+  }
+  return `No NEO named "${q}" in the loaded feed or the first ${SEARCH_BROWSE_PAGES * SEARCH_BROWSE_SIZE} catalogue entries.`;
+}
+
+/**
+ * Search by name, number or designation and process the result for display.
+ * @returns Processed asteroid info, or null when nothing matches
+ */
+export async function searchAsteroidInfo(query: string, known: AsteroidListItem[] = []): Promise<ProcessedAsteroidInfo | null> {
+  const detail = await findAsteroid(query, known);
+  return detail ? processAsteroidData(detail) : null;
 }
 
 /**
@@ -243,21 +432,18 @@ function latestRelevantApproach(
 }
 
 /**
- * Calculate impact risk assessment based on orbital data and close approaches
+ * Impact probability at the next close approach, from the orbit geometry and its uncertainty.
+ * - Earth MOID comes from the orbital elements; no impact is possible while it exceeds Earth's capture radius
+ * - Along-track uncertainty follows the MPC U parameter, grown over the years until the approach
+ * The Torino and Palermo scales also need the impact energy, so they are worked out with the sim (see lib/risk).
  */
 function calculateImpactRisk({
-  missDistanceKm,
+  elements,
   orbitUncertainty,
-  dataArcDays,
-  observationsUsed,
-  isPotentiallyHazardous,
   closeApproachData
 }: {
-  missDistanceKm: number | null;
+  elements: OrbitalElements | null;
   orbitUncertainty: string | null;
-  dataArcDays: number | null;
-  observationsUsed: number | null;
-  isPotentiallyHazardous: boolean;
   closeApproachData: CloseApproachData[];
 }): ProcessedAsteroidInfo['impactRisk'] {
   
@@ -268,6 +454,8 @@ function calculateImpactRisk({
     .sort((a, b) => new Date(a.close_approach_date).getTime() - new Date(b.close_approach_date).getTime());
   
   const nextApproach = futureApproaches[0];
+  const nextMissKm = nextApproach ? parseFloat(nextApproach.miss_distance.kilometers) : NaN;
+  const nextSpeedKps = nextApproach ? parseFloat(nextApproach.relative_velocity.kilometers_per_second) : NaN;
   
   // Calculate years until next approach
   let yearsUntilNextApproach: number | null = null;
@@ -275,67 +463,74 @@ function calculateImpactRisk({
     const nextDate = new Date(nextApproach.close_approach_date);
     yearsUntilNextApproach = (nextDate.getTime() - now.getTime()) / (365.25 * 24 * 60 * 60 * 1000);
   }
-  
-  // Simplified impact probability calculation
+
+  const moidAU = elements ? earthMoidAU(elements) : null;
+  const uncertainty = orbitUncertainty !== null ? parseFloat(orbitUncertainty) : NaN;
+
   let probability: number | null = null;
-  let riskLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'UNKNOWN' = 'UNKNOWN';
-  
-  if (missDistanceKm !== null) {
-    // Convert miss distance to probability (very simplified model)
-    // Earth's radius is ~6371 km, so we consider anything within 100,000 km as potentially risky
-    
-    if (missDistanceKm < 10000) {
-      // Very close approaches
-      const earthRadius = 6371;
-      const riskFactor = Math.max(0, (earthRadius * 10 - missDistanceKm) / (earthRadius * 10));
-      
-      // Factor in orbit uncertainty
-      let uncertaintyFactor = 1;
-      if (orbitUncertainty) {
-        const uncertainty = parseFloat(orbitUncertainty);
-        if (!isNaN(uncertainty)) {
-          uncertaintyFactor = Math.min(10, uncertainty); // Higher uncertainty = higher risk
-        }
-      }
-      
-      // Factor in observation quality
-      let observationFactor = 1;
-      if (dataArcDays !== null && observationsUsed !== null) {
-        // More observations and longer data arc = lower uncertainty
-        observationFactor = Math.max(0.1, 1 / Math.log10(observationsUsed + 1) / Math.log10(dataArcDays + 1));
-      }
-      
-      probability = Math.min(0.01, riskFactor * uncertaintyFactor * observationFactor * 0.001); // Cap at 1%
-      
-      if (probability > 0.001) riskLevel = 'HIGH';
-      else if (probability > 0.0001) riskLevel = 'MEDIUM';
-      else riskLevel = 'LOW';
-    } else if (missDistanceKm < 100000) {
-      probability = 0.00001; // Very low but non-zero
-      riskLevel = 'LOW';
-    } else {
-      probability = 0;
-      riskLevel = 'LOW';
-    }
-  }
-  
-  // Override with NASA's potentially hazardous classification
-  if (isPotentiallyHazardous && probability === null) {
-    probability = 0.0001; // Default low probability for PHA
-    riskLevel = 'MEDIUM';
+  if (elements && moidAU !== null && yearsUntilNextApproach !== null
+    && Number.isFinite(nextMissKm) && Number.isFinite(nextSpeedKps)) {
+    probability = impactProbability({
+      missDistanceKm: nextMissKm,
+      moidKm: moidAU * KM_PER_AU,
+      vInfinityKms: nextSpeedKps,
+      // An orbit without a U value is treated as poorly determined
+      sigmaKm: alongTrackSigmaKm(Number.isFinite(uncertainty) ? uncertainty : 9, elements.semiMajorAxisAU, yearsUntilNextApproach),
+    });
   }
   
   return {
     probability,
-    riskLevel,
+    moidAU,
     nextCloseApproach: nextApproach ? {
       date: nextApproach.close_approach_date,
-      missDistanceKm: parseFloat(nextApproach.miss_distance.kilometers) || null
-    } : { date: null, missDistanceKm: null },
+      missDistanceKm: Number.isFinite(nextMissKm) ? nextMissKm : null,
+      speedKms: Number.isFinite(nextSpeedKps) ? nextSpeedKps : null
+    } : { date: null, missDistanceKm: null, speedKms: null },
     yearsUntilNextApproach: yearsUntilNextApproach ? Math.round(yearsUntilNextApproach * 100) / 100 : null
   };
 }
 
+/**
+ * Osculating elements from the parsed orbital_data fields.
+ * Returns null when any is missing or the orbit is not elliptic (the Kepler solver needs e < 1).
+ */
+function orbitalElements(o: {
+  semiMajorAxis: number | null;
+  eccentricity: number | null;
+  inclDeg: number | null;
+  ascendingNode: number | null;
+  perihelionArg: number | null;
+  meanAnomaly: number | null;
+  epochJd: number | null;
+}): OrbitalElements | null {
+  const { semiMajorAxis, eccentricity, inclDeg, ascendingNode, perihelionArg, meanAnomaly, epochJd } = o;
+  if (semiMajorAxis === null || eccentricity === null || inclDeg === null || ascendingNode === null
+    || perihelionArg === null || meanAnomaly === null || epochJd === null) return null;
+  if (!(semiMajorAxis > 0) || !(eccentricity >= 0 && eccentricity < 1)) return null;
+  return {
+    semiMajorAxisAU: semiMajorAxis,
+    eccentricity,
+    inclinationDeg: inclDeg,
+    ascendingNodeDeg: ascendingNode,
+    perihelionArgDeg: perihelionArg,
+    meanAnomalyDeg: meanAnomaly,
+    epochJd,
+  };
+}
+
+// NASA's approach dates are whole days; search a window around them
+const APPROACH_SEARCH_DAYS = 10;
+
+/**
+ * Propagate the elements to the reported close approach and find the actual minimum distance.
+ */
+function propagateApproach(elements: OrbitalElements, date: string): GeocentricApproach | null {
+  const jd = julianDate(new Date(date + 'T00:00:00Z'));
+  if (!Number.isFinite(jd)) return null;
+  return findClosestApproach(elements, jd - APPROACH_SEARCH_DAYS, jd + APPROACH_SEARCH_DAYS);
+}
+
 /**
  * Process raw NASA data into a clean, organized, UI-ready format.
  * Returns data grouped by category for easier frontend consumption.
@@ -346,8 +541,11 @@ export function processAsteroidData(detail: NeoDetail): ProcessedAsteroidInfo {
   const km = detail.estimated_diameter.kilometers;
   const m = detail.estimated_diameter.meters;
 
+  // Only Earth approaches: the propagation and the impact risk are geocentric
+  const earthApproaches = (detail.close_approach_data ?? []).filter(ca => ca.orbiting_body === 'Earth');
+
   // Pick the approach closest to now
-  const latest = latestRelevantApproach(detail.close_approach_data);
+  const latest = latestRelevantApproach(earthApproaches);
 
   const round2 = (n: number) => Number(n.toFixed(2));
   const parseNum = (s: string | number | undefined | null): number | null => {
@@ -375,15 +573,18 @@ export function processAsteroidData(detail: NeoDetail): ProcessedAsteroidInfo {
   const orbitUncertainty = orbital?.orbit_uncertainty || null;
   const dataArcDays = orbital?.data_arc_in_days ? parseNum(orbital.data_arc_in_days) : null;
   const observationsUsed = orbital?.observations_used ? parseNum(orbital.observations_used) : null;
+  const epochJd = orbital?.epoch_osculation ? parseNum(orbital.epoch_osculation) : null;
+
+  const elements = orbitalElements({
+    semiMajorAxis, eccentricity, inclDeg, ascendingNode, perihelionArg, meanAnomaly, epochJd
+  });
+  const propagated = elements && latest ? propagateApproach(elements, latest.close_approach_date) : null;
 
   // Calculate impact risk assessment
   const impactRisk = calculateImpactRisk({
-    missDistanceKm: missKm,
+    elements,
     orbitUncertainty,
-    dataArcDays,
-    observationsUsed,
-    isPotentiallyHazardous: detail.is_potentially_hazardous_asteroid,
-    closeApproachData: detail.close_approach_data
+    closeApproachData: earthApproaches
   });
 
 
@@ -429,17 +630,58 @@ export function processAsteroidData(detail: NeoDetail): ProcessedAsteroidInfo {
       orbitUncertainty: orbitUncertainty,
       dataArcDays: dataArcDays !== null ? round2(dataArcDays) : null,
       observationsUsed: observationsUsed !== null ? round2(observationsUsed) : null,
+      epochJd,
+      elements,
     },
     
     closeApproach: {
       date: latest ? latest.close_approach_date : null,
       missDistanceKm: missKm !== null ? round2(missKm) : null,
+      propagated,
     },
+
+    approaches: [...earthApproaches]
+      .sort((a, b) => a.close_approach_date.localeCompare(b.close_approach_date))
+      .map(ca => ({
+        date: ca.close_approach_date,
+        missDistanceKm: parseNum(ca.miss_distance.kilometers),
+        speedKms: parseNum(ca.relative_velocity.kilometers_per_second),
+      })),
     
     impactRisk: impactRisk,
   };
 }
 
+const KPH_PER_KPS = 3600;
+const KM_PER_MILE = 1.609344;
+
+/**
+ * Same asteroid with one of its other close approaches as the current one:
+ * speed, miss distance and the propagated approach all follow the chosen date.
+ * @param info - Processed asteroid info
+ * @param date - close_approach_date of an entry in `info.approaches`
+ */
+export function withCloseApproach(info: ProcessedAsteroidInfo, date: string): ProcessedAsteroidInfo {
+  const approach = info.approaches.find(a => a.date === date);
+  if (!approach) return info;
+
+  const round2 = (n: number) => Number(n.toFixed(2));
+  const kps = approach.speedKms;
+  return {
+    ...info,
+    speed: {
+      kmPerSecond: kps !== null ? round2(kps) : null,
+      kmPerHour: kps !== null ? round2(kps * KPH_PER_KPS) : null,
+      milesPerHour: kps !== null ? round2(kps * KPH_PER_KPS / KM_PER_MILE) : null,
+    },
+    closeApproach: {
+      date,
+      missDistanceKm: approach.missDistanceKm !== null ? round2(approach.missDistanceKm) : null,
+      propagated: info.orbital.elements ? propagateApproach(info.orbital.elements, date) : null,
+    },
+  };
+}
+
 /**
  * asteroid ID is the primary key and it can be use too find all data from all objects
  * Main orchestrator: input asteroid ID, output all processed data.
@@ -0,0 +1,28 @@
+// src/lib/bands.ts
+export type BandRing = { label: string; radiusKm: number }
+
+export type Band<R extends BandRing> = {
+    innerKm: number
+    outerKm: number
+    active: R[]        // one ring per hazard that reaches the band
+}
+
+/**
+ * Cuts the nested rings of several hazards into bands at all their radii, innermost first.
+ * - Each hazard acts in a band through the strongest (smallest) of its rings that still covers it
+ * - Rings without a radius are dropped
+ */
+export function hazardBands<R extends BandRing>(hazards: R[][]): Band<R>[] {
+    const sorted = hazards.map(list => list.filter(r => r.radiusKm > 0).sort((a, b) => a.radiusKm - b.radiusKm))
+    const radii = [0, ...new Set(sorted.flat().map(r => r.radiusKm))].sort((a, b) => a - b)
+
+    const bands: Band<R>[] = []
+    for (let i = 1; i < radii.length; i++) {
+        const outerKm = radii[i]
+        const active = sorted
+            .map(list => list.find(r => r.radiusKm >= outerKm))
+            .filter((r): r is R => r != null)
+        bands.push({ innerKm: radii[i - 1], outerKm, active })
+    }
+    return bands
+}
@@ -0,0 +1,82 @@
+// src/lib/blast.ts
+export type BlastRing = {
+    psi: number
+    pressureKPa: number
+    label: string
+    damage: string           // expected damage inside this ring
+    radiusKm: number         // ground range, 0 when the threshold is never reached
+}
+
+export type BlastAssessment = {
+    burstAltitudeKm: number  // 0 for a surface burst
+    rings: BlastRing[]       // ordered from innermost (highest pressure) to outermost
+}
+
+/** Ring colours keyed by psi, darkest for the most destructive */
+export const BLAST_COLORS: Record<number, string> = {
+    20: '#b71c1c',
+    5: '#ff5722',
+    4: '#ff9800',
+    1: '#ffb86c',
+}
+
+const PSI_TO_KPA = 6.894757
+const J_PER_KT = 4.184e12
+const J_PER_MT = 4.184e15
+
+// Reference point of the 1 kt surface-burst overpressure curve (Collins et al. 2005)
+const P_X = 75000   // Pa
+const R_X = 290     // m
+
+// A shock hitting the ground from above reflects off it, roughly doubling the load
+const AIRBURST_REFLECTION = 2
+
+const THRESHOLDS: Array<Omit<BlastRing, 'radiusKm' | 'pressureKPa'>> = [
+    { psi: 20, label: 'Reinforced concrete', damage: 'Reinforced-concrete buildings severely damaged or demolished; near-total fatalities' },
+    { psi: 5, label: 'Residential collapse', damage: 'Most residential buildings collapse; widespread serious injuries and deaths' },
+    { psi: 4, label: 'Heavy residential damage', damage: 'Wood-frame houses heavily damaged, some collapse; injuries from debris common' },
+    { psi: 1, label: 'Window breakage', damage: 'Window glass shatters; cuts from flying glass, light damage to structures' },
+]
+
+/**
+ * Peak overpressure with cube-root (Hopkinson–Cranz) scaling of a 1 kt reference burst:
+ *   r1 = r / E_kt^(1/3),  p = (p_x r_x / 4 r1) (1 + 3 (r_x / r1)^1.3)
+ * For airbursts the scaled distance uses the slant range from the burst point.
+ */
+export function overpressurePa(energyMt: number, groundRangeKm: number, burstAltitudeKm = 0) {
+    const Ekt = Math.max(1e-9, energyMt * J_PER_MT / J_PER_KT)
+    const slantM = Math.hypot(groundRangeKm, burstAltitudeKm) * 1000
+    const r1 = Math.max(1e-3, slantM / Math.cbrt(Ekt))
+    const p = (P_X * R_X / (4 * r1)) * (1 + 3 * Math.pow(R_X / r1, 1.3))
+    return burstAltitudeKm > 0 ? p * AIRBURST_REFLECTION : p
+}
+
+/** Ground ranges for the named overpressure thresholds */
+export function assessBlast(params: { energyMt: number; burstAltitudeKm?: number }): BlastAssessment {
+    const energyMt = Math.max(0, params.energyMt)
+    const burstAltitudeKm = Math.max(0, params.burstAltitudeKm ?? 0)
+
+    const rangeForPressure = (targetPa: number) => {
+        if (energyMt <= 0 || overpressurePa(energyMt, 0, burstAltitudeKm) < targetPa) return 0
+        let lo = 0
+        let hi = 20000
+        for (let i = 0; i < 60; i++) {
+            const mid = (lo + hi) / 2
+            if (overpressurePa(energyMt, mid, burstAltitudeKm) >= targetPa) lo = mid
+            else hi = mid
+        }
+        return lo
+    }
+
+    const rings = THRESHOLDS.map(t => {
+        const pressureKPa = t.psi * PSI_TO_KPA
+        return { ...t, pressureKPa, radiusKm: rangeForPressure(pressureKPa * 1000) }
+    })
+
+    return { burstAltitudeKm, rings }
+}
+
+/** Radius (km) of the ring for a given psi threshold, 0 if not present */
+export function blastRadiusKm(a: BlastAssessment, psi: number) {
+    return a.rings.find(r => r.psi === psi)?.radiusKm ?? 0
+}
@@ -0,0 +1,47 @@
+// src/lib/casualty.test.ts
+import { describe, expect, it } from 'vitest'
+import { estimateRingCasualties } from './casualty'
+import { computeImpactEffects } from './effects'
+import type { PopulationProvider } from './population'
+
+const DENSITY = 1000 // people / km²
+const uniform: PopulationProvider = {
+    name: 'bundled',
+    densityAt: async () => DENSITY,
+    populationInRing: async (_lat, _lon, innerKm, outerKm) => DENSITY * Math.PI * (outerKm ** 2 - innerKm ** 2),
+    regionAt: async () => null,
+}
+
+const impactor = { diameterM: 500, densityKgM3: 3000, speedKms: 20, angleDeg: 45 }
+const effects = computeImpactEffects(impactor, { target: 'water', elevationM: -4000 })
+// A coastal land strike: the crater reaches the flooded cells
+const coastal = computeImpactEffects(impactor, { target: 'sediment', elevationM: 5 })
+
+// One 0.01° cell centred on the impact, and one far outside every ring
+const cell = (lat: number, lon: number) => ({ south: lat - 0.005, north: lat + 0.005, west: lon - 0.005, east: lon + 0.005, depthM: 20 })
+
+describe('estimateRingCasualties', () => {
+    it('does not drown people the crater already killed', async () => {
+        const dry = await estimateRingCasualties({ lat: 0, lon: 0, effects: coastal, population: uniform })
+        const wet = await estimateRingCasualties({
+            lat: 0, lon: 0, effects: coastal, population: uniform,
+            inundation: { cells: [cell(0, 0)], floodedAreaKm2: 1.2, maxRunUpM: 20 },
+        })
+        // ~1200 people live in the cell; the crater leaves one in a thousand for the flood
+        expect(wet.deaths - dry.deaths).toBeLessThan(2)
+        expect(wet.deaths).toBeLessThanOrEqual(wet.exposed)
+    })
+
+    it('applies the full flood fatality outside the rings', async () => {
+        const dry = await estimateRingCasualties({ lat: 0, lon: 0, effects, population: uniform })
+        const wet = await estimateRingCasualties({
+            lat: 0, lon: 0, effects, population: uniform,
+            inundation: { cells: [cell(0, 170)], floodedAreaKm2: 1.2, maxRunUpM: 20 },
+        })
+        const flood = wet.rings.filter(r => r.hazard === 'tsunami')
+        expect(flood).toHaveLength(1)
+        expect(wet.deaths - dry.deaths).toBeCloseTo(flood[0].deaths, 6)
+        expect(flood[0].deaths).toBeGreaterThan(0)
+        expect(flood[0].deaths).toBeLessThanOrEqual(flood[0].population)
+    })
+})
@@ -1,22 +1,49 @@
 // src/lib/casualty.ts
+import type { TargetMaterial } from './target'
+import type { ImpactEffects } from './effects'
+import type { InundationResult } from './inundation'
+import type { PopulationProvider } from './population'
+import type { ThermalEffect } from './thermal'
+import { hazardBands, type Band } from './bands'
+import { haversineKm } from './geo'
+import { getProviders } from '../providers/registry'
+
 export type DensityAssessment = {
     densityPkm2: number          // people / km²
     category: 'city' | 'suburb' | 'town' | 'neighbourhood' | 'village' | 'hamlet' | 'rural' | 'coast' | 'unknown'
-    source: 'overpass' | 'terrain-fallback'
+    source: 'gridded' | 'overpass' | 'terrain-fallback'
     note?: string
+    radiusKm?: number            // gridded: radius the density was averaged over
+}
+
+export type HazardKind = 'crater' | 'blast' | 'thermal' | 'seismic' | 'tsunami'
+
+export type RingToll = {
+    hazard: HazardKind
+    label: string
+    innerKm: number           // tsunami zones are flooded cells, not rings: 0 / 0
+    outerKm: number
+    population: number        // people inside the ring (or flooded cells)
+    deaths: number
+    injuries: number
 }
 
-export type CasualtyEstimate = {
-    density: DensityAssessment
-    areaKm2: number
-    fatalityRate: number
-    casualties: number
+export type HazardToll = {
+    hazard: HazardKind
+    deaths: number
+    injuries: number
+}
+
+export type RingCasualtyEstimate = {
+    exposed: number           // people inside the outermost ring of any hazard
+    deaths: number
+    injuries: number
+    byHazard: HazardToll[]
+    rings: RingToll[]
 }
 
-export type TsunamiRisk = 'EXTREME' | 'HIGH' | 'MODERATE' | 'LOW' | 'NEGLIGIBLE' | 'Unable to determine'
 export type TerrainKind = 'Ocean/Sea' | 'Coastal/Low-lying' | 'Plains/Valley' | 'Hills/Plateau' | 'Mountains' | 'Unknown'
 
-const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v))
 const roundSig = (n: number) => {
     if (!Number.isFinite(n) || n <= 0) return 0
     const e = Math.floor(Math.log10(n))
@@ -34,6 +61,23 @@ const PLACE_DENSITY: Record<string, number> = {
     hamlet: 80
 }
 
+// Radius (km) a point density is averaged over, matching the OSM place search
+const DENSITY_RADIUS_KM = 15
+
+/**
+ * Terrain class of a site from its elevation.
+ * A known target material wins over the elevation: only a water target is open sea.
+ */
+export function terrainKind(elevationM: number | null, material?: TargetMaterial): TerrainKind {
+    if (material === 'water') return 'Ocean/Sea'
+    if (elevationM == null) return 'Unknown'
+    if (elevationM < 0) return material ? 'Coastal/Low-lying' : 'Ocean/Sea'
+    if (elevationM < 10) return 'Coastal/Low-lying'
+    if (elevationM < 100) return 'Plains/Valley'
+    if (elevationM < 500) return 'Hills/Plateau'
+    return 'Mountains'
+}
+
 const TERRAIN_DENSITY: Record<TerrainKind, number> = {
     'Ocean/Sea': 0,
     'Coastal/Low-lying': 800,
@@ -43,33 +87,41 @@ const TERRAIN_DENSITY: Record<TerrainKind, number> = {
     'Unknown': 150
 }
 
+// Settlement class for a mean density, using the same scale as the OSM place tags
+function categoryForDensity(densityPkm2: number): DensityAssessment['category'] {
+    if (densityPkm2 >= PLACE_DENSITY.city) return 'city'
+    if (densityPkm2 >= PLACE_DENSITY.suburb) return 'suburb'
+    if (densityPkm2 >= PLACE_DENSITY.town) return 'town'
+    if (densityPkm2 >= PLACE_DENSITY.village) return 'village'
+    if (densityPkm2 >= PLACE_DENSITY.hamlet) return 'hamlet'
+    return 'rural'
+}
+
+/**
+ * Mean population density around a point.
+ * - First choice: people counted from the bundled population grid within `radiusKm`
+ * - Then the densest OSM "place" tag nearby, then a terrain-based default
+ */
+export async function assessPopulationDensity(lat: number, lon: number, terrain: TerrainKind, radiusKm = DENSITY_RADIUS_KM): Promise<DensityAssessment> {
+    try {
+        const people = await getProviders().population.populationInRing(lat, lon, 0, radiusKm)
+        const densityPkm2 = people / (Math.PI * radiusKm * radiusKm)
+        return { densityPkm2, category: categoryForDensity(densityPkm2), source: 'gridded', radiusKm }
+    } catch {
+        return assessPlaceDensity(lat, lon, terrain)
+    }
+}
+
 /**
  * Try to infer a local population density using OSM "place" features.
- * Falls back to terrain-based default if Overpass is unavailable.
+ * Falls back to terrain-based default if the place provider is unavailable.
  */
-export async function assessPopulationDensity(lat: number, lon: number, terrain: TerrainKind): Promise<DensityAssessment> {
+async function assessPlaceDensity(lat: number, lon: number, terrain: TerrainKind): Promise<DensityAssessment> {
     try {
-        const q = `
-      [out:json][timeout:20];
-      (
-        node(around:15000, ${lat}, ${lon})["place"~"city|town|village|hamlet|suburb|neighbourhood"];
-        way(around:15000, ${lat}, ${lon})["place"~"city|town|village|hamlet|suburb|neighbourhood"];
-        relation(around:15000, ${lat}, ${lon})["place"~"city|town|village|hamlet|suburb|neighbourhood"];
-      );
-      out tags center 20;
-    `.trim()
-        const r = await fetch('https://overpass-api.de/api/interpreter', {
-            method: 'POST',
-            headers: { 'Content-Type': 'text/plain' },
-            body: q
-        })
-        const data = await r.json()
-        const els = (data?.elements ?? []) as Array<{ tags?: Record<string, string> }>
+        const places = await getProviders().places.placesAround(lat, lon, DENSITY_RADIUS_KM)
 
         let bestCat: DensityAssessment['category'] | null = null
-        for (const el of els) {
-            const place = el.tags?.place
-            if (!place) continue
+        for (const { place } of places) {
             if (place in PLACE_DENSITY) {
                 // prefer the densest class we see
                 if (!bestCat) bestCat = place as any
@@ -93,52 +145,171 @@ export async function assessPopulationDensity(lat: number, lon: number, terrain:
     }
 }
 
+type Fractions = { fatality: number; injury: number }   // injury counts survivors only
+
+// Inside the final crater nobody survives
+const CRATER_FRACTIONS: Fractions = { fatality: 1, injury: 0 }
+
+// Overpressure band inside each threshold (Glasstone & Dolan 1977, Hiroshima/Nagasaki experience)
+const BLAST_FRACTIONS: Record<number, Fractions> = {
+    20: { fatality: 0.95, injury: 0.9 },
+    5: { fatality: 0.5, injury: 0.6 },
+    4: { fatality: 0.15, injury: 0.5 },
+    1: { fatality: 0.005, injury: 0.15 },
+}
+
+// Thermal band inside each fluence threshold; many people are indoors or shielded
+const THERMAL_FRACTIONS: Record<ThermalEffect, Fractions> = {
+    clothing: { fatality: 0.5, injury: 0.8 },
+    burn3: { fatality: 0.2, injury: 0.6 },
+    vegetation: { fatality: 0.1, injury: 0.5 },
+    burn2: { fatality: 0.02, injury: 0.3 },
+    burn1: { fatality: 0, injury: 0.05 },
+}
+
+// Shaking band inside each MMI contour (order of USGS PAGER empirical rates)
+const SEISMIC_FRACTIONS: Record<number, Fractions> = {
+    10: { fatality: 0.1, injury: 0.3 },
+    8: { fatality: 0.01, injury: 0.1 },
+    6: { fatality: 0.0005, injury: 0.01 },
+    4: { fatality: 0, injury: 0 },
+}
+
+// Flow depth over land (m) → fractions, rough fit to 2004 Indian Ocean and 2011 Tōhoku surveys
+const TSUNAMI_DEPTH_FRACTIONS: Array<{ minDepthM: number; label: string } & Fractions> = [
+    { minDepthM: 8, label: 'Run-up over 8 m', fatality: 0.8, injury: 0.5 },
+    { minDepthM: 4, label: 'Run-up 4–8 m', fatality: 0.5, injury: 0.4 },
+    { minDepthM: 2, label: 'Run-up 2–4 m', fatality: 0.2, injury: 0.3 },
+    { minDepthM: 1, label: 'Run-up 1–2 m', fatality: 0.05, injury: 0.15 },
+    { minDepthM: 0, label: 'Run-up under 1 m', fatality: 0.005, injury: 0.05 },
+]
+
+const KM_PER_DEG = 111.32
+
+type Zone = RingToll & Fractions & { radiusKm: number }
+
+// Nested rings → one zone per ring, reaching in to the next smaller ring of the same hazard
+function zonesFromRings(hazard: HazardKind, rings: Array<{ label: string; radiusKm: number } & Fractions>): Zone[] {
+    const zones: Zone[] = []
+    let inner = 0
+    for (const r of [...rings].sort((a, b) => a.radiusKm - b.radiusKm)) {
+        if (r.radiusKm <= inner) continue
+        zones.push({ hazard, label: r.label, innerKm: inner, outerKm: r.radiusKm, radiusKm: r.radiusKm, fatality: r.fatality, injury: r.injury, population: 0, deaths: 0, injuries: 0 })
+        inner = r.radiusKm
+    }
+    return zones
+}
+
 /**
- * Crude casualty model:
- * - Effective affected radius Re = (craterRadius + 0.6 * blastRadius)
- * - Area A = π Re²
- * - Fatality rate f = clamp( 0.08 + 0.12*log10(E_Mt) + tsunamiAdj, 0.03..0.9 )
+ * Casualties per hazard ring, from the people actually living in each ring.
+ * - The rings of every hazard are cut into bands at all their radii; each band's population comes from the provider
+ * - Within a band the hazards act together: survival = Π (1 − f_h); deaths are shared out in proportion to −ln(1 − f_h)
+ * - Injuries apply to survivors the same way
+ * - Flooded coastal cells add tsunami casualties by flow depth, among the people their band left alive;
+ *   someone injured in a band and then drowned counts once, as a tsunami death
  */
-export function estimateCasualties(params: {
-    energyTNT: number
-    craterKm: number
-    blastRadiusKm: number
-    densityPkm2: number
-    tsunamiRisk: TsunamiRisk
-}): CasualtyEstimate {
-    const { energyTNT, craterKm, blastRadiusKm, densityPkm2, tsunamiRisk } = params
-
-    const craterR = Math.max(0, craterKm / 2)
-    const Re = Math.max(0.1, craterR + 0.6 * Math.max(0, blastRadiusKm))
-    const areaKm2 = Math.PI * Re * Re
-
-    const baseF = clamp(0.08 + 0.12 * Math.log10(Math.max(1e-6, energyTNT)), 0.03, 0.75)
-    const adj = tsunamiRisk === 'EXTREME' ? 0.20
-        : tsunamiRisk === 'HIGH' ? 0.12
-            : tsunamiRisk === 'MODERATE' ? 0.06
-                : tsunamiRisk === 'LOW' ? 0.02
-                    : 0.0
-    const fatalityRate = clamp(baseF + adj, 0.03, 0.9)
-
-    const casualtiesRaw = densityPkm2 * areaKm2 * fatalityRate
-    const casualties = roundSig(casualtiesRaw)
+export async function estimateRingCasualties(params: {
+    lat: number
+    lon: number
+    effects: ImpactEffects
+    inundation?: InundationResult | null
+    population?: PopulationProvider
+}): Promise<RingCasualtyEstimate> {
+    const { lat, lon, effects } = params
+    const population = params.population ?? getProviders().population
+
+    const hazardZones: Zone[][] = [
+        zonesFromRings('crater', [{ label: 'Crater', radiusKm: effects.crater.finalDiameterKm / 2, ...CRATER_FRACTIONS }]),
+        zonesFromRings('blast', effects.blast.rings.map(r => ({ label: r.label, radiusKm: r.radiusKm, ...BLAST_FRACTIONS[r.psi] }))),
+        zonesFromRings('thermal', effects.thermal.rings.map(r => ({ label: r.label, radiusKm: r.radiusKm, ...THERMAL_FRACTIONS[r.effect] }))),
+        zonesFromRings('seismic', effects.seismic.rings.map(r => ({ label: `MMI ${r.roman}+`, radiusKm: r.radiusKm, ...SEISMIC_FRACTIONS[r.mmi] }))),
+    ]
+    const zones = hazardZones.flat()
+
+    const rate = (f: number) => -Math.log(1 - Math.min(0.999, Math.max(0, f)))
+    const bands: Array<Band<Zone> & { survival: number; injured: number; injuryRate: number }> = []
+    let exposed = 0
+
+    for (const { innerKm, outerKm, active } of hazardBands(hazardZones)) {
+        const deathRate = active.reduce((sum, z) => sum + rate(z.fatality), 0)
+        const injuryRate = active.reduce((sum, z) => sum + rate(z.injury), 0)
+        const band = { innerKm, outerKm, active, survival: Math.exp(-deathRate), injured: 1 - Math.exp(-injuryRate), injuryRate }
+        bands.push(band)
+
+        const people = await population.populationInRing(lat, lon, innerKm, outerKm)
+        exposed += people
+        if (people <= 0) continue
+
+        const deaths = people * (1 - band.survival)
+        const injuries = (people - deaths) * band.injured
+
+        for (const z of active) {
+            z.population += people
+            if (deathRate > 0) z.deaths += deaths * rate(z.fatality) / deathRate
+            if (injuryRate > 0) z.injuries += injuries * rate(z.injury) / injuryRate
+        }
+    }
+
+    // Tsunami: the people in each flooded cell that its band left alive, by flow depth
+    const floodZones: Zone[] = TSUNAMI_DEPTH_FRACTIONS.map(t => ({
+        hazard: 'tsunami', label: t.label, innerKm: 0, outerKm: 0, radiusKm: 0,
+        fatality: t.fatality, injury: t.injury, population: 0, deaths: 0, injuries: 0,
+    }))
+    for (const cell of params.inundation?.cells ?? []) {
+        const midLat = (cell.south + cell.north) / 2
+        const areaKm2 = (cell.north - cell.south) * KM_PER_DEG * (cell.east - cell.west) * KM_PER_DEG * Math.cos(midLat * Math.PI / 180)
+        const midLon = (cell.west + cell.east) / 2
+        const people = await population.densityAt(midLat, midLon) * areaKm2
+        const k = TSUNAMI_DEPTH_FRACTIONS.findIndex(t => cell.depthM >= t.minDepthM)
+        const z = floodZones[k < 0 ? floodZones.length - 1 : k]
+
+        const d = haversineKm(lat, lon, midLat, midLon)
+        const band = bands.find(b => d >= b.innerKm && d < b.outerKm)
+        const survivors = people * (band?.survival ?? 1)
+        const ringInjured = survivors * (band?.injured ?? 0)
+        z.population += people
+        z.deaths += survivors * z.fatality
+        z.injuries += (survivors - ringInjured) * (1 - z.fatality) * z.injury
+        if (band && band.injuryRate > 0) {
+            for (const r of band.active) r.injuries -= ringInjured * z.fatality * rate(r.injury) / band.injuryRate
+        }
+    }
+
+    const rings: RingToll[] = [...zones, ...floodZones.filter(z => z.population > 0)]
+        .map(({ fatality, injury, radiusKm, ...ring }) => ring)
+    const hazards: HazardKind[] = ['crater', 'blast', 'thermal', 'seismic', 'tsunami']
+    const byHazard = hazards
+        .map(hazard => {
+            const mine = rings.filter(r => r.hazard === hazard)
+            return {
+                hazard,
+                deaths: mine.reduce((sum, r) => sum + r.deaths, 0),
+                injuries: mine.reduce((sum, r) => sum + r.injuries, 0),
+            }
+        })
+        .filter(h => rings.some(r => r.hazard === h.hazard))
 
     return {
-        density: { densityPkm2, category: 'unknown', source: 'overpass' },
-        areaKm2,
-        fatalityRate,
-        casualties
+        exposed,
+        deaths: byHazard.reduce((sum, h) => sum + h.deaths, 0),
+        injuries: byHazard.reduce((sum, h) => sum + h.injuries, 0),
+        byHazard,
+        rings,
     }
 }
 
-/** Build a multiple-choice casualty question with explanations */
-export function buildCasualtyQuestion(args: {
-    casualties: number
-    areaKm2: number
-    fatalityRate: number
-    density: DensityAssessment
-}) {
-    const { casualties, areaKm2, fatalityRate, density } = args
+// How the explanations name each hazard
+const HAZARD_NAMES: Record<HazardKind, string> = {
+    crater: 'the crater',
+    blast: 'the blast wave',
+    thermal: 'the heat flash',
+    seismic: 'the ground shaking',
+    tsunami: 'the flooding',
+}
+
+/** Build a multiple-choice casualty question with explanations, from the ring-by-ring estimate */
+export function buildCasualtyQuestion(estimate: RingCasualtyEstimate) {
+    const casualties = roundSig(estimate.deaths)
 
     // If we can't compute, ask about which factor matters most
     if (!Number.isFinite(casualties) || casualties <= 0) {
@@ -181,14 +352,15 @@ export function buildCasualtyQuestion(args: {
     const correctIdxRaw = arr.indexOf(c)
 
     // Explanations aligned to options
+    const deadliest = estimate.byHazard.reduce((a, b) => (b.deaths > a.deaths ? b : a))
     const explanationsRaw = arr.map((n, i) => {
         if (i === correctIdxRaw) {
-            return `Matches ~${fmt(c)} based on area ≈ ${areaKm2.toFixed(0)} km², fatality rate ≈ ${(fatalityRate * 100).toFixed(0)}%, and density ≈ ${Math.round(density.densityPkm2)} ppl/km² (${density.source === 'overpass' ? density.category : 'fallback'}).`
+            return `Matches ~${fmt(c)}: about ${fmt(Math.round(estimate.exposed))} people live inside the hazard rings, and ${HAZARD_NAMES[deadliest.hazard]} causes the most deaths (~${fmt(Math.round(deadliest.deaths))}).`
         }
         const diff = Math.abs(n - c)
         return n < c
-            ? `Undershoots by roughly ${fmt(diff)} — too low for this density and affected area.`
-            : `Overshoots by roughly ${fmt(diff)} — too high for this density and affected area.`
+            ? `Undershoots by roughly ${fmt(diff)} — too low for the people living inside the hazard rings.`
+            : `Overshoots by roughly ${fmt(diff)} — too high for the people living inside the hazard rings.`
     })
 
     // Shuffle once
@@ -198,7 +370,7 @@ export function buildCasualtyQuestion(args: {
     const answer = order.indexOf(correctIdxRaw)
 
     return {
-        q: 'Approximate death toll for this impact (population-density aware):',
+        q: 'Approximate death toll for this impact (from the people in each hazard ring):',
         choices,
         explanations,
         answer
@@ -0,0 +1,120 @@
+// src/lib/crater.ts
+import { TARGET_MATERIALS, type TargetMaterial } from './target'
+
+export type CraterMorphology = 'none' | 'simple' | 'complex'
+
+export type CraterAssessment = {
+    morphology: CraterMorphology
+    transientDiameterKm: number
+    finalDiameterKm: number
+    depthKm: number              // rim-to-floor depth of the final crater
+    rimHeightKm: number
+    transitionDiameterKm: number // simple → complex transition on Earth
+    waterCavityDiameterKm: number // transient cavity in the water column, 0 for land targets
+}
+
+const EARTH_GRAVITY = 9.81                 // m/s²
+const SIMPLE_COMPLEX_TRANSITION_KM = 3.2   // final diameter where collapse starts on Earth
+const MIN_CRATERING_SPEED_KMS = 0.5        // slower debris only digs pits
+const WATER_DRAG_COEFFICIENT = 0.877   // sphere in water
+const SEAFLOOR_DENSITY = 2500
+
+const NO_CRATER: CraterAssessment = {
+    morphology: 'none',
+    transientDiameterKm: 0,
+    finalDiameterKm: 0,
+    depthKm: 0,
+    rimHeightKm: 0,
+    transitionDiameterKm: SIMPLE_COMPLEX_TRANSITION_KM,
+    waterCavityDiameterKm: 0
+}
+
+/**
+ * Pi-group crater scaling (Holsapple / Schmidt, as used by Collins et al. 2005).
+ * - Transient crater: D_tc = 1.161 (ρi/ρt)^(1/3) L^0.78 v^0.44 g^-0.22 sin^(1/3)θ
+ * - Simple craters (D_fr < 3.2 km): D_fr = 1.25 D_tc, depth reduced by the breccia lens
+ * - Complex craters: D_fr = 1.17 D_tc^1.13 / D_c^0.13, depth = 0.294 D_fr^0.301 (km)
+ * - Rim height: h = 0.07 D_tc^4 / D_fr^3
+ * - Water targets: a cavity opens in the water (coefficient 1.365), and the impactor, slowed by
+ *   drag through depth d_w as v_sf = v exp(−3 ρw C_D d_w / (2 ρi L sinθ)), digs the seafloor crater
+ */
+export function assessCrater(params: {
+    diameterM: number
+    impactorDensityKgM3: number
+    impactSpeedKms: number       // speed at the surface (after atmospheric entry)
+    angleDeg: number
+    target?: TargetMaterial      // defaults to sedimentary rock
+    waterDepthM?: number         // only used for water targets
+}): CraterAssessment {
+    const { diameterM, impactorDensityKgM3, angleDeg } = params
+    const target = params.target ?? 'sediment'
+
+    if (target === 'water') {
+        if (!(diameterM > 0) || !(params.impactSpeedKms > 0)) return NO_CRATER
+        const sinT = Math.sin(Math.max(1, Math.min(90, angleDeg)) * Math.PI / 180)
+        const waterDensity = TARGET_MATERIALS.water.densityKgM3
+        const cavityM = 1.365
+            * Math.cbrt(impactorDensityKgM3 / waterDensity)
+            * Math.pow(diameterM, 0.78)
+            * Math.pow(params.impactSpeedKms * 1000, 0.44)
+            * Math.pow(EARTH_GRAVITY, -0.22)
+            * Math.cbrt(sinT)
+        const depth = Math.max(0, params.waterDepthM ?? 0)
+        const seafloorSpeedKms = params.impactSpeedKms
+            * Math.exp(-3 * waterDensity * WATER_DRAG_COEFFICIENT * depth / (2 * impactorDensityKgM3 * diameterM * sinT))
+        const seafloor = rockCrater(diameterM, impactorDensityKgM3, seafloorSpeedKms, angleDeg, SEAFLOOR_DENSITY)
+        return { ...seafloor, waterCavityDiameterKm: cavityM / 1000 }
+    }
+
+    return rockCrater(diameterM, impactorDensityKgM3, params.impactSpeedKms, angleDeg, TARGET_MATERIALS[target].densityKgM3)
+}
+
+function rockCrater(
+    diameterM: number,
+    impactorDensityKgM3: number,
+    impactSpeedKms: number,
+    angleDeg: number,
+    targetDensity: number
+): CraterAssessment {
+
+    if (!(diameterM > 0) || !(impactSpeedKms >= MIN_CRATERING_SPEED_KMS)) return NO_CRATER
+
+    const v = impactSpeedKms * 1000
+    const sinT = Math.sin(Math.max(1, Math.min(90, angleDeg)) * Math.PI / 180)
+
+    const DtcM = 1.161
+        * Math.cbrt(impactorDensityKgM3 / targetDensity)
+        * Math.pow(diameterM, 0.78)
+        * Math.pow(v, 0.44)
+        * Math.pow(EARTH_GRAVITY, -0.22)
+        * Math.cbrt(sinT)
+    const Dtc = DtcM / 1000
+
+    let Dfr = 1.25 * Dtc
+    let morphology: CraterMorphology = 'simple'
+    let depth: number
+    let rim = 0.07 * Math.pow(Dtc, 4) / Math.pow(Dfr, 3)
+
+    if (Dfr < SIMPLE_COMPLEX_TRANSITION_KM) {
+        // Simple bowl partly refilled by a breccia lens
+        const dtc = Dtc / (2 * Math.SQRT2)
+        const brecciaVol = 0.032 * Math.pow(Dfr, 3)
+        const brecciaThickness = 2.8 * brecciaVol * ((dtc + rim) / (dtc * Dfr * Dfr))
+        depth = Math.max(0, dtc + rim - brecciaThickness)
+    } else {
+        morphology = 'complex'
+        Dfr = 1.17 * Math.pow(Dtc, 1.13) / Math.pow(SIMPLE_COMPLEX_TRANSITION_KM, 0.13)
+        depth = 0.294 * Math.pow(Dfr, 0.301)
+        rim = 0.07 * Math.pow(Dtc, 4) / Math.pow(Dfr, 3)
+    }
+
+    return {
+        morphology,
+        transientDiameterKm: Dtc,
+        finalDiameterKm: Dfr,
+        depthKm: depth,
+        rimHeightKm: rim,
+        transitionDiameterKm: SIMPLE_COMPLEX_TRANSITION_KM,
+        waterCavityDiameterKm: 0
+    }
+}
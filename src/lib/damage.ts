@@ -0,0 +1,125 @@
+// src/lib/damage.ts
+import type { ImpactEffects } from './effects'
+import type { PopulationProvider } from './population'
+import { hazardBands } from './bands'
+import { getProviders } from '../providers/registry'
+
+export type DamageZone = {
+    label: string              // hazards acting in this band, e.g. "5 psi · MMI VIII+"
+    innerKm: number
+    outerKm: number
+    population: number
+    buildings: number
+    collapsedFraction: number
+    damagedFraction: number    // damaged but standing
+    collapsed: number
+    damaged: number
+    roadKm: number             // exposed infrastructure
+    bridges: number
+    powerLineKm: number
+    substations: number
+}
+
+export type DamageAssessment = {
+    zones: DamageZone[]        // innermost first; bands with no damage are left out
+    buildings: number
+    collapsed: number
+    damaged: number
+    roadKm: number
+    bridges: number
+    powerLineKm: number
+    substations: number
+}
+
+type Fractions = { collapsed: number; damaged: number }   // damaged counts standing buildings only
+
+// Inside the final crater nothing is left
+const CRATER_FRACTIONS: Fractions = { collapsed: 1, damaged: 0 }
+
+// Overpressure band inside each threshold (Glasstone & Dolan 1977, Table 5.139 structure types)
+const BLAST_FRACTIONS: Record<number, Fractions> = {
+    20: { collapsed: 0.95, damaged: 1 },
+    5: { collapsed: 0.5, damaged: 0.9 },
+    4: { collapsed: 0.2, damaged: 0.75 },
+    1: { collapsed: 0, damaged: 0.3 },
+}
+
+// Shaking band inside each MMI contour (HAZUS-style mix of building types)
+const SEISMIC_FRACTIONS: Record<number, Fractions> = {
+    10: { collapsed: 0.5, damaged: 0.8 },
+    8: { collapsed: 0.1, damaged: 0.5 },
+    6: { collapsed: 0.005, damaged: 0.1 },
+    4: { collapsed: 0, damaged: 0.01 },
+}
+
+/**
+ * Stock per person, from national inventories (US, EU and world road statistics), rounded down
+ * for the many places with less infrastructure. Counts scale with the gridded population.
+ */
+const BUILDINGS_PER_PERSON = 0.3
+const ROAD_KM_PER_PERSON = 0.01
+const BRIDGES_PER_ROAD_KM = 0.05
+const POWER_LINE_KM_PER_PERSON = 0.002
+const SUBSTATIONS_PER_PERSON = 1e-4
+
+/**
+ * Building damage and exposed infrastructure per zone.
+ * - The crater, overpressure and MMI rings are cut into bands at all their radii
+ * - In a band: P(standing) = Π (1 − collapsed_h); standing buildings are damaged with 1 − Π (1 − damaged_h)
+ * - Buildings, roads, bridges and power lines are estimated from the people living in the band
+ */
+export async function assessDamage(params: {
+    lat: number
+    lon: number
+    effects: ImpactEffects
+    population?: PopulationProvider
+}): Promise<DamageAssessment> {
+    const { lat, lon, effects } = params
+    const population = params.population ?? getProviders().population
+
+    const bands = hazardBands([
+        [{ label: 'Crater', radiusKm: effects.crater.finalDiameterKm / 2, ...CRATER_FRACTIONS }],
+        effects.blast.rings.map(r => ({ label: `${r.psi} psi`, radiusKm: r.radiusKm, ...BLAST_FRACTIONS[r.psi] })),
+        effects.seismic.rings.map(r => ({ label: `MMI ${r.roman}+`, radiusKm: r.radiusKm, ...SEISMIC_FRACTIONS[r.mmi] })),
+    ])
+    const zones: DamageZone[] = []
+
+    for (const { innerKm, outerKm, active } of bands) {
+        const standing = active.reduce((p, r) => p * (1 - r.collapsed), 1)
+        const intact = active.reduce((p, r) => p * (1 - r.damaged), 1)
+        const collapsedFraction = 1 - standing
+        const damagedFraction = standing * (1 - intact)
+        if (collapsedFraction <= 0 && damagedFraction <= 0) continue
+
+        const people = await population.populationInRing(lat, lon, innerKm, outerKm)
+        const buildings = people * BUILDINGS_PER_PERSON
+        const roadKm = people * ROAD_KM_PER_PERSON
+        zones.push({
+            label: active.map(r => r.label).join(' · '),
+            innerKm,
+            outerKm,
+            population: people,
+            buildings,
+            collapsedFraction,
+            damagedFraction,
+            collapsed: buildings * collapsedFraction,
+            damaged: buildings * damagedFraction,
+            roadKm,
+            bridges: roadKm * BRIDGES_PER_ROAD_KM,
+            powerLineKm: people * POWER_LINE_KM_PER_PERSON,
+            substations: people * SUBSTATIONS_PER_PERSON,
+        })
+    }
+
+    const total = (key: keyof Omit<DamageZone, 'label'>) => zones.reduce((sum, z) => sum + z[key], 0)
+    return {
+        zones,
+        buildings: total('buildings'),
+        collapsed: total('collapsed'),
+        damaged: total('damaged'),
+        roadKm: total('roadKm'),
+        bridges: total('bridges'),
+        powerLineKm: total('powerLineKm'),
+        substations: total('substations'),
+    }
+}
@@ -1,8 +1,11 @@
 // src/lib/dynamics.ts
+import { thermalRadiusKm, type ThermalAssessment } from './thermal'
+import type { SeismicAssessment } from './seismic'
+import { energyClass, type EnergyClass } from './effects'
+
 export type Q = { q: string; choices: string[]; explanations: string[]; answer: number }
 
 // ---------- helpers ----------
-const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v))
 const uniqInts = (vals: number[]) => {
     const s = new Set<number>()
     const out: number[] = []
@@ -18,18 +21,17 @@ const shuffleIdx = (n: number) => Array.from({ length: n }, (_, i) => i).sort(()
 
 // ---------- 1) Thermal / fireball radius ----------
 /**
- * Crude 3rd-degree burn radius (km) ~ k * E^(1/3)
- * k tuned for gameplay: 3.0 gives ~3 km at 1 Mt, ~14 km at 1000 Mt
+ * 3rd-degree burn radius (km) taken from the sim's thermal assessment,
+ * so the quiz answer matches the rings drawn on the map and globe.
  */
-export function buildThermalQuestion(energyTNT: number) {
-    const k = 3.0
-    const r = clamp(k * Math.cbrt(Math.max(energyTNT, 0)), 1, 200) // km
+export function buildThermalQuestion(thermal: ThermalAssessment, energyTNT: number) {
+    const r = Math.max(1, thermalRadiusKm(thermal, 'burn3')) // km
 
     const vals = uniqInts([r, r * 0.55, r * 0.8, r * 1.6])
     const correctRaw = vals[0]
     const optionsRaw = vals.map(v => `~${v} km radius for severe thermal burns`)
     const explanationsRaw = vals.map((v, i) => {
-        if (i === 0) return `Scales as E^(1/3); with ${energyTNT.toFixed(2)} Mt, the severe-burn radius is ~${Math.round(r)} km.`
+        if (i === 0) return `A ${thermal.fireballRadiusKm.toFixed(1)} km fireball from ${energyTNT.toFixed(2)} Mt delivers 3rd-degree-burn fluence out to ~${Math.round(r)} km.`
         const diff = Math.abs(v - Math.round(r))
         return v < r ? `Undershoots by ~${diff} km — too small for this energy.` : `Overshoots by ~${diff} km — too large for this energy.`
     })
@@ -49,10 +51,10 @@ export function buildThermalQuestion(energyTNT: number) {
 
 // ---------- 2) Seismic magnitude equivalent ----------
 /**
- * Simple mapping: M ≈ 4 + log10(E_Mt) (same as your map pane)
+ * Magnitude from the sim's seismic assessment (same number as the map pane)
  */
-export function buildSeismicQuestion(energyTNT: number) {
-    const M = 4 + Math.log10(Math.max(energyTNT, 1e-6))
+export function buildSeismicQuestion(seismic: SeismicAssessment, groundEnergyMt: number) {
+    const M = Number.isFinite(seismic.magnitude) ? seismic.magnitude : 0
     const center = Number(M.toFixed(1))
 
     const candidates = [
@@ -69,7 +71,7 @@ export function buildSeismicQuestion(energyTNT: number) {
     const correct = unique[0]
     const optionsRaw = unique.map(v => `Magnitude ${v.toFixed(1)}`)
     const explanationsRaw = unique.map(v => {
-        if (v === correct) return `Using M ≈ 4 + log10(E_Mt) with E=${energyTNT.toFixed(2)} Mt ⇒ M≈${center.toFixed(1)}.`
+        if (v === correct) return `About ${(seismic.efficiency * 100).toFixed(2)}% of the ${groundEnergyMt.toFixed(2)} Mt reaching the ground becomes seismic waves ⇒ M≈${center.toFixed(1)}.`
         const diff = Math.abs(v - center).toFixed(1)
         return `Off by ~${diff} magnitude units from the E→M estimate.`
     })
@@ -92,13 +94,13 @@ export function buildSeismicQuestion(energyTNT: number) {
  * Classify impact by energy bracket (gamey but intuitive).
  */
 export function buildEnergyClassQuestion(energyTNT: number) {
-    const classes = [
-        { label: 'City-killer (< 1 Mt)', ok: (e: number) => e < 1 },
-        { label: 'Regional (1–100 Mt)', ok: (e: number) => e >= 1 && e < 100 },
-        { label: 'Continental (100–1000 Mt)', ok: (e: number) => e >= 100 && e < 1000 },
-        { label: 'Global (> 1000 Mt)', ok: (e: number) => e >= 1000 },
+    const classes: Array<{ key: EnergyClass; label: string }> = [
+        { key: 'local', label: 'City-killer (< 1 Mt)' },
+        { key: 'regional', label: 'Regional (1–100 Mt)' },
+        { key: 'continental', label: 'Continental (100–1000 Mt)' },
+        { key: 'global', label: 'Global (> 1000 Mt)' },
     ]
-    const answer = classes.findIndex(c => c.ok(energyTNT))
+    const answer = classes.findIndex(c => c.key === energyClass(energyTNT))
     const choices = classes.map(c => c.label)
     const explanations = classes.map((c, i) => i === answer
         ? `At ${energyTNT.toFixed(2)} Mt, this fits the “${c.label}” bracket.`
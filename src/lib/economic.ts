@@ -0,0 +1,93 @@
+// src/lib/economic.ts
+import type { DamageAssessment } from './damage'
+import type { RingCasualtyEstimate } from './casualty'
+import type { WorldRegion } from './population'
+
+export type RegionalValue = {
+    capitalPerCapitaUsd: number   // produced capital: buildings, machinery, infrastructure
+    gdpPerCapitaUsd: number
+}
+
+export type EconomicLoss = {
+    region: WorldRegion | null    // null: world averages were used
+    value: RegionalValue
+    affectedPeople: number        // deaths, injuries and people whose homes collapsed
+    buildingsUsd: number
+    infrastructureUsd: number
+    outputUsd: number             // a year of lost economic output per affected person
+    totalUsd: number
+}
+
+/**
+ * Per-capita exposed value by World Bank region, rounded 2018 USD
+ * (produced capital from The Changing Wealth of Nations 2021, GDP from World Bank WDI).
+ */
+export const REGIONAL_VALUES: Record<WorldRegion, RegionalValue> = {
+    'North America': { capitalPerCapitaUsd: 200_000, gdpPerCapitaUsd: 63_000 },
+    'Europe & Central Asia': { capitalPerCapitaUsd: 90_000, gdpPerCapitaUsd: 25_000 },
+    'East Asia & Pacific': { capitalPerCapitaUsd: 40_000, gdpPerCapitaUsd: 11_000 },
+    'Latin America & Caribbean': { capitalPerCapitaUsd: 25_000, gdpPerCapitaUsd: 9_000 },
+    'Middle East & North Africa': { capitalPerCapitaUsd: 30_000, gdpPerCapitaUsd: 8_000 },
+    'South Asia': { capitalPerCapitaUsd: 6_000, gdpPerCapitaUsd: 2_000 },
+    'Sub-Saharan Africa': { capitalPerCapitaUsd: 5_000, gdpPerCapitaUsd: 1_600 },
+    'Antarctica': { capitalPerCapitaUsd: 0, gdpPerCapitaUsd: 0 },
+}
+
+const WORLD_VALUE: RegionalValue = { capitalPerCapitaUsd: 40_000, gdpPerCapitaUsd: 11_000 }
+
+// Split of produced capital, and the share of value lost in a damaged (not collapsed) building
+const BUILDING_SHARE = 0.6
+const INFRASTRUCTURE_SHARE = 0.25
+const DAMAGED_LOSS_RATIO = 0.3
+const OUTPUT_LOSS_YEARS = 1
+
+/**
+ * Direct and indirect loss of one impact.
+ * - Each damage zone loses (collapsed + 0.3 × damaged) of the capital held by the people living there
+ * - Buildings and infrastructure are fixed shares of that capital
+ * - Affected people each lose a year of output; survivors are only counted once
+ * The region is taken at the impact site, so losses spilling across borders are approximate.
+ */
+export function estimateEconomicLoss(params: {
+    damage: DamageAssessment
+    casualties?: RingCasualtyEstimate | null
+    region: WorldRegion | null
+}): EconomicLoss {
+    const { damage, casualties, region } = params
+    const value = region ? REGIONAL_VALUES[region] : WORLD_VALUE
+
+    let lostCapitalUsd = 0
+    let displaced = 0
+    for (const z of damage.zones) {
+        lostCapitalUsd += z.population * value.capitalPerCapitaUsd * (z.collapsedFraction + DAMAGED_LOSS_RATIO * z.damagedFraction)
+        displaced += z.population * z.collapsedFraction
+    }
+
+    const deaths = casualties?.deaths ?? 0
+    const injuries = casualties?.injuries ?? 0
+    const affectedPeople = deaths + injuries + Math.max(0, displaced - deaths)
+
+    const buildingsUsd = lostCapitalUsd * BUILDING_SHARE
+    const infrastructureUsd = lostCapitalUsd * INFRASTRUCTURE_SHARE
+    const outputUsd = affectedPeople * value.gdpPerCapitaUsd * OUTPUT_LOSS_YEARS
+
+    return {
+        region,
+        value,
+        affectedPeople,
+        buildingsUsd,
+        infrastructureUsd,
+        outputUsd,
+        totalUsd: buildingsUsd + infrastructureUsd + outputUsd,
+    }
+}
+
+/** Compact dollar amount, e.g. $850M, $1.2B, $3.4T */
+export function formatUsd(usd: number) {
+    const abs = Math.abs(usd)
+    if (abs >= 1e12) return `$${(usd / 1e12).toFixed(abs >= 1e13 ? 0 : 1)}T`
+    if (abs >= 1e9) return `$${(usd / 1e9).toFixed(abs >= 1e10 ? 0 : 1)}B`
+    if (abs >= 1e6) return `$${(usd / 1e6).toFixed(abs >= 1e7 ? 0 : 1)}M`
+    if (abs >= 1e3) return `$${(usd / 1e3).toFixed(0)}k`
+    return `$${usd.toFixed(0)}`
+}
@@ -0,0 +1,105 @@
+// src/lib/effects.ts
+import { assessEntry, type EntryAssessment } from './entry'
+import { assessCrater, type CraterAssessment } from './crater'
+import { assessThermal, type ThermalAssessment } from './thermal'
+import { assessBlast, blastRadiusKm, type BlastAssessment } from './blast'
+import { assessSeismic, type SeismicAssessment } from './seismic'
+import { assessEjecta, type EjectaAssessment } from './ejecta'
+import { assessTsunamiPropagation, type TsunamiPropagation } from './tsunami'
+import { targetProperties, waterDepthM, type TargetMaterial, type TargetProperties } from './target'
+
+export type Impactor = {
+    diameterM: number
+    densityKgM3: number
+    speedKms: number       // speed at the top of the atmosphere
+    angleDeg: number       // entry angle from horizontal
+}
+
+export type ImpactSite = {
+    target: TargetMaterial
+    elevationM: number | null
+}
+
+export type ImpactEffects = {
+    energyMt: number
+    target: TargetProperties
+    waterDepthM: number
+    entry: EntryAssessment
+    crater: CraterAssessment
+    thermal: ThermalAssessment
+    blast: BlastAssessment
+    seismic: SeismicAssessment
+    ejecta: EjectaAssessment
+    tsunami: TsunamiPropagation   // empty rings unless the target is water
+}
+
+export type EnergyClass = 'local' | 'regional' | 'continental' | 'global'
+
+const J_PER_MT = 4.184e15
+
+// Overpressure that drives the casualty estimate (residential collapse)
+const CASUALTY_BLAST_PSI = 5
+
+/** Kinetic energy (Mt TNT) of a spherical impactor */
+export function kineticEnergyMt(diameterM: number, densityKgM3: number, speedKms: number) {
+    const r = diameterM / 2
+    const mass = densityKgM3 * (4 / 3) * Math.PI * r * r * r
+    const v = speedKms * 1000
+    return 0.5 * mass * v * v / J_PER_MT
+}
+
+/**
+ * Every hazard for one impactor hitting one site.
+ * - Entry splits the energy between an airburst and the ground
+ * - Thermal uses the total energy; blast is centred on the burst altitude
+ * - Crater, seismic shaking and ejecta only see what reaches the ground, on the site's material
+ * - Water targets add a tsunami spreading from the water cavity
+ */
+export function computeImpactEffects(impactor: Impactor, site: ImpactSite): ImpactEffects {
+    const { diameterM, densityKgM3, speedKms, angleDeg } = impactor
+    const target = targetProperties(site.target)
+    const depthM = waterDepthM(site.target, site.elevationM)
+
+    const energyMt = kineticEnergyMt(diameterM, densityKgM3, speedKms)
+    const entry = assessEntry({ diameterM, densityKgM3, speedKms, angleDeg })
+    const thermal = assessThermal({ energyMt, speedKms })
+    const blast = assessBlast({ energyMt, burstAltitudeKm: entry.airburstAltitudeKm ?? 0 })
+    const seismic = assessSeismic({ groundEnergyMt: entry.groundEnergyMt, efficiency: target.seismicEfficiency })
+    const crater = assessCrater({
+        diameterM,
+        impactorDensityKgM3: densityKgM3,
+        impactSpeedKms: entry.impactSpeedKms,
+        angleDeg,
+        target: site.target,
+        waterDepthM: depthM,
+    })
+    const ejecta = assessEjecta({
+        transientDiameterKm: crater.transientDiameterKm,
+        finalDiameterKm: crater.finalDiameterKm,
+    })
+    // Only a water target opens a cavity in the ocean and raises a tsunami
+    const tsunami = assessTsunamiPropagation({
+        waterCavityDiameterKm: crater.waterCavityDiameterKm,
+        waterDepthM: depthM,
+    })
+
+    return { energyMt, target, waterDepthM: depthM, entry, crater, thermal, blast, seismic, ejecta, tsunami }
+}
+
+/** Energy bracket: local < 1 Mt ≤ regional < 100 Mt ≤ continental < 1000 Mt ≤ global */
+export function energyClass(energyMt: number): EnergyClass {
+    if (energyMt < 1) return 'local'
+    if (energyMt < 100) return 'regional'
+    if (energyMt < 1000) return 'continental'
+    return 'global'
+}
+
+/** Blast radius (km) used for casualty areas, so every screen counts the same people */
+export function casualtyBlastRadiusKm(e: ImpactEffects) {
+    return blastRadiusKm(e.blast, CASUALTY_BLAST_PSI)
+}
+
+/** Outer edge (km) of any blast damage, used for lethality fall-off */
+export function outerBlastRadiusKm(e: ImpactEffects) {
+    return blastRadiusKm(e.blast, 1)
+}
@@ -0,0 +1,84 @@
+// src/lib/ejecta.ts
+export type EjectaRing = {
+    thicknessM: number
+    label: string
+    radiusKm: number         // distance from the impact point, 0 when no ejecta reaches this thickness
+}
+
+export type EjectaSample = {
+    distanceKm: number
+    thicknessM: number       // 0 inside the crater or when there is no crater
+    fragmentSizeM: number    // mean fragment diameter landing here
+    insideCrater: boolean
+}
+
+export type EjectaAssessment = {
+    transientDiameterKm: number
+    finalDiameterKm: number
+    rimThicknessM: number    // blanket thickness right at the rim
+    rings: EjectaRing[]      // ordered from innermost (thickest) to outermost
+}
+
+/** Ring colours keyed by thickness, dark brown for deep burial fading to tan for dusting */
+export const EJECTA_COLORS: Record<number, string> = {
+    10: '#4e342e',
+    1: '#6d4c41',
+    0.1: '#8d6e63',
+    0.01: '#a1887f',
+    0.001: '#d7ccc8',
+}
+
+const EARTH_RADIUS_KM = 6371
+const FRAGMENT_SIZE_EXPONENT = 2.65
+const MAX_FRAGMENT_M = 1000   // keep the fit sane right at the rim of small craters
+
+const THRESHOLDS: Array<Omit<EjectaRing, 'radiusKm'>> = [
+    { thicknessM: 10, label: 'Buried (10 m)' },
+    { thicknessM: 1, label: 'Buildings buried (1 m)' },
+    { thicknessM: 0.1, label: 'Roofs collapse (10 cm)' },
+    { thicknessM: 0.01, label: 'Heavy dusting (1 cm)' },
+    { thicknessM: 0.001, label: 'Light dusting (1 mm)' },
+]
+
+/**
+ * Ejecta blanket model (McGetchin et al. 1973, via Collins et al. 2005).
+ * - Thickness at range r from the crater centre: t = D_tc^4 / (112 r^3)
+ * - Mean fragment size: d = d_c (D_fr / 2r)^2.65, with d_c = 2400 (D_fr / 2)^-1.62 m (D_fr in km)
+ * - Nothing is deposited inside the final crater rim
+ */
+export function ejectaAtDistance(a: EjectaAssessment, distanceKm: number): EjectaSample {
+    const r = Math.max(0, distanceKm)
+    const rimKm = a.finalDiameterKm / 2
+    if (a.transientDiameterKm <= 0 || r < rimKm) {
+        return { distanceKm: r, thicknessM: 0, fragmentSizeM: 0, insideCrater: a.transientDiameterKm > 0 }
+    }
+
+    const thicknessKm = Math.pow(a.transientDiameterKm, 4) / (112 * Math.pow(r, 3))
+    const dc = Math.min(MAX_FRAGMENT_M, 2400 * Math.pow(rimKm, -1.62))
+    const fragmentSizeM = dc * Math.pow(rimKm / r, FRAGMENT_SIZE_EXPONENT)
+
+    return { distanceKm: r, thicknessM: thicknessKm * 1000, fragmentSizeM, insideCrater: false }
+}
+
+/** Ranges of the named blanket thicknesses for a crater from assessCrater */
+export function assessEjecta(params: { transientDiameterKm: number; finalDiameterKm: number }): EjectaAssessment {
+    const transientDiameterKm = Math.max(0, params.transientDiameterKm)
+    const finalDiameterKm = Math.max(0, params.finalDiameterKm)
+    const rimKm = finalDiameterKm / 2
+    const maxRangeKm = Math.PI * EARTH_RADIUS_KM
+
+    const base = { transientDiameterKm, finalDiameterKm, rimThicknessM: 0, rings: [] as EjectaRing[] }
+    if (transientDiameterKm <= 0) {
+        return { ...base, rings: THRESHOLDS.map(t => ({ ...t, radiusKm: 0 })) }
+    }
+
+    base.rimThicknessM = ejectaAtDistance(base, rimKm).thicknessM
+
+    const rings = THRESHOLDS.map(t => {
+        // Invert t = D_tc^4 / (112 r^3) for r
+        const r = Math.cbrt(Math.pow(transientDiameterKm, 4) / (112 * t.thicknessM / 1000))
+        return { ...t, radiusKm: r < rimKm ? 0 : Math.min(r, maxRangeKm) }
+    })
+
+    return { ...base, rings }
+}
@@ -0,0 +1,176 @@
+// src/lib/elevation.ts
+export type ElevationSource = 'bundled' | 'open-elevation'
+
+export type ElevationSample = {
+    elevationM: number       // negative below sea level
+    source: ElevationSource
+}
+
+export type ElevationGrid = {
+    south: number
+    west: number
+    north: number
+    east: number
+    rows: number            // cells along latitude, row 0 is the southern edge
+    cols: number            // cells along longitude, col 0 is the western edge
+    elevationsM: number[]   // row-major cell-centre elevations, negative below sea level
+}
+
+export type ElevationProvider = {
+    name: ElevationSource
+    elevationAt: (lat: number, lon: number) => Promise<ElevationSample>
+    gridAround: (lat: number, lon: number, halfSizeKm: number, n: number) => Promise<ElevationGrid>
+}
+
+// Layout of public/data/elevation-0.5deg.bin (see scripts/build-elevation-grid.mjs)
+const BUNDLED_URL = '/data/elevation-0.5deg.bin'
+const BUNDLED_COLS = 720
+const BUNDLED_ROWS = 360
+const BUNDLED_STEP_DEG = 0.5
+
+const KM_PER_DEG = 111.32
+const REMOTE_TIMEOUT_MS = 4000
+
+const toRad = (d: number) => d * Math.PI / 180
+
+/** Evenly spaced cell centres around a point, for a grid of `n` × `n` cells */
+export function gridPointsAround(lat: number, lon: number, halfSizeKm: number, n: number) {
+    const dLat = halfSizeKm / KM_PER_DEG
+    const dLon = halfSizeKm / (KM_PER_DEG * Math.max(0.05, Math.cos(toRad(lat))))
+    const bounds = {
+        south: Math.max(-90, lat - dLat),
+        north: Math.min(90, lat + dLat),
+        west: lon - dLon,
+        east: lon + dLon,
+    }
+    const points: Array<{ lat: number; lon: number }> = []
+    for (let r = 0; r < n; r++) {
+        for (let c = 0; c < n; c++) {
+            points.push({
+                lat: bounds.south + (r + 0.5) * (bounds.north - bounds.south) / n,
+                lon: bounds.west + (c + 0.5) * (bounds.east - bounds.west) / n,
+            })
+        }
+    }
+    return { bounds, points }
+}
+
+let bundledGrid: Promise<Int16Array> | null = null
+
+function loadBundledGrid() {
+    if (!bundledGrid) {
+        bundledGrid = fetch(BUNDLED_URL)
+            .then(r => {
+                if (!r.ok) throw new Error(`Bundled elevation grid missing (${r.status})`)
+                return r.arrayBuffer()
+            })
+            .then(buf => new Int16Array(buf))
+            .catch(err => {
+                bundledGrid = null   // allow a retry on the next lookup
+                throw err
+            })
+    }
+    return bundledGrid
+}
+
+/**
+ * Bilinear sample of the bundled 0.5° grid.
+ * Cell centres sit at 89.75°N … 89.75°S and 179.75°W … 179.75°E; longitude wraps around.
+ */
+export function sampleBundledGrid(data: Int16Array, lat: number, lon: number) {
+    const y = Math.max(0, Math.min(BUNDLED_ROWS - 1, (90 - BUNDLED_STEP_DEG / 2 - lat) / BUNDLED_STEP_DEG))
+    const xRaw = (lon + 180 - BUNDLED_STEP_DEG / 2) / BUNDLED_STEP_DEG
+    const x = ((xRaw % BUNDLED_COLS) + BUNDLED_COLS) % BUNDLED_COLS
+
+    const r0 = Math.floor(y)
+    const r1 = Math.min(BUNDLED_ROWS - 1, r0 + 1)
+    const c0 = Math.floor(x)
+    const c1 = (c0 + 1) % BUNDLED_COLS
+    const fy = y - r0
+    const fx = x - c0
+
+    const at = (r: number, c: number) => data[r * BUNDLED_COLS + c]
+    const top = at(r0, c0) * (1 - fx) + at(r0, c1) * fx
+    const bottom = at(r1, c0) * (1 - fx) + at(r1, c1) * fx
+    return top * (1 - fy) + bottom * fy
+}
+
+/** Coarse global elevation and bathymetry shipped with the app; works offline */
+export const bundledElevationProvider: ElevationProvider = {
+    name: 'bundled',
+    elevationAt: async (lat, lon) => {
+        const data = await loadBundledGrid()
+        return { elevationM: sampleBundledGrid(data, lat, lon), source: 'bundled' }
+    },
+    gridAround: async (lat, lon, halfSizeKm, n) => {
+        const data = await loadBundledGrid()
+        const { bounds, points } = gridPointsAround(lat, lon, halfSizeKm, n)
+        return { ...bounds, rows: n, cols: n, elevationsM: points.map(p => sampleBundledGrid(data, p.lat, p.lon)) }
+    },
+}
+
+async function fetchWithTimeout(url: string, init?: RequestInit) {
+    const ctrl = new AbortController()
+    const timer = setTimeout(() => ctrl.abort(), REMOTE_TIMEOUT_MS)
+    try {
+        return await fetch(url, { ...init, signal: ctrl.signal })
+    } finally {
+        clearTimeout(timer)
+    }
+}
+
+/** Higher-resolution land elevation from api.open-elevation.com (often blocked on school networks) */
+export const openElevationProvider: ElevationProvider = {
+    name: 'open-elevation',
+    elevationAt: async (lat, lon) => {
+        const r = await fetchWithTimeout(`https://api.open-elevation.com/api/v1/lookup?locations=${lat},${lon}`)
+        const data = await r.json()
+        const elevationM = data?.results?.[0]?.elevation
+        if (typeof elevationM !== 'number') throw new Error('No elevation in response')
+        return { elevationM, source: 'open-elevation' }
+    },
+    gridAround: async (lat, lon, halfSizeKm, n) => {
+        const { bounds, points } = gridPointsAround(lat, lon, halfSizeKm, n)
+        const r = await fetchWithTimeout('https://api.open-elevation.com/api/v1/lookup', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ locations: points.map(p => ({ latitude: p.lat, longitude: p.lon })) })
+        })
+        const data = await r.json()
+        const results = (data?.results ?? []) as Array<{ elevation: number }>
+        if (results.length !== points.length) throw new Error('Incomplete elevation grid')
+        return { ...bounds, rows: n, cols: n, elevationsM: results.map(x => x.elevation) }
+    },
+}
+
+/**
+ * Prefer the remote land elevation, fall back to the bundled grid when it fails.
+ * Open-Elevation has no bathymetry (the sea reads as 0 m), so at or below sea level
+ * the bundled ocean depth is used instead.
+ */
+export function remoteOverBundled(remote: ElevationProvider, bundled: ElevationProvider): ElevationProvider {
+    const merge = (remoteM: number, bundledM: number) => remoteM <= 0 && bundledM < 0 ? bundledM : remoteM
+    return {
+        name: remote.name,
+        elevationAt: async (lat, lon) => {
+            const base = await bundled.elevationAt(lat, lon).catch(() => null)
+            try {
+                const r = await remote.elevationAt(lat, lon)
+                return base ? { ...r, elevationM: merge(r.elevationM, base.elevationM) } : r
+            } catch (err) {
+                if (base) return base
+                throw err
+            }
+        },
+        gridAround: async (lat, lon, halfSizeKm, n) => {
+            const base = await bundled.gridAround(lat, lon, halfSizeKm, n).catch(() => null)
+            try {
+                const r = await remote.gridAround(lat, lon, halfSizeKm, n)
+                return base ? { ...r, elevationsM: r.elevationsM.map((m, i) => merge(m, base.elevationsM[i])) } : r
+            } catch (err) {
+                if (base) return base
+                throw err
+            }
+        },
+    }
+}
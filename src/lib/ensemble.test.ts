@@ -0,0 +1,35 @@
+// src/lib/ensemble.test.ts
+import { describe, expect, it } from 'vitest'
+import { estimateRingCasualties } from './casualty'
+import { computeImpactEffects } from './effects'
+import { runEnsemble } from './ensemble'
+import type { PopulationProvider } from './population'
+
+const DENSITY = 1000 // people / km²
+const uniform: PopulationProvider = {
+    name: 'bundled',
+    densityAt: async () => DENSITY,
+    populationInRing: async (_lat, _lon, innerKm, outerKm) => DENSITY * Math.PI * (outerKm ** 2 - innerKm ** 2),
+    regionAt: async () => null,
+}
+
+const site = { target: 'sediment' as const, elevationM: 100 }
+
+describe('runEnsemble', () => {
+    it('counts casualties with the ring model', async () => {
+        const result = await runEnsemble({
+            diameterMinM: 200, diameterMaxM: 200, speedKms: 20, site,
+            lat: 10, lon: 20, population: uniform, runs: 1,
+        })
+        const effects = computeImpactEffects({
+            diameterM: result.diameterM.median,
+            densityKgM3: result.densityKgM3.median,
+            speedKms: 20,
+            angleDeg: result.angleDeg.median,
+        }, site)
+        const direct = await estimateRingCasualties({ lat: 10, lon: 20, effects, population: uniform })
+
+        expect(direct.deaths).toBeGreaterThan(0)
+        expect(result.casualties.median).toBeCloseTo(direct.deaths, 3)
+    })
+})
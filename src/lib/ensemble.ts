@@ -0,0 +1,155 @@
+// src/lib/ensemble.ts
+import { estimateRingCasualties } from './casualty'
+import { computeImpactEffects, casualtyBlastRadiusKm, outerBlastRadiusKm, type ImpactEffects, type ImpactSite } from './effects'
+import { radialProfile, type PopulationProvider } from './population'
+import { getProviders } from '../providers/registry'
+
+export type Spread = {
+    median: number
+    p5: number
+    p95: number
+}
+
+export type EnsembleResult = {
+    runs: number
+    diameterM: Spread
+    densityKgM3: Spread
+    angleDeg: Spread
+    energyMt: Spread
+    craterKm: Spread
+    blast5psiKm: Spread     // residential collapse
+    blast1psiKm: Spread     // window breakage
+    casualties: Spread          // deaths, from the people in each hazard ring
+}
+
+export const DEFAULT_ENSEMBLE_RUNS = 300
+
+// Log-spaced shells the population is counted in once, shared by every run
+const PROFILE_SHELLS = 40
+const PROFILE_INNER_FRACTION = 1e-3   // innermost shell, as a fraction of the widest ring
+
+/**
+ * Bulk density classes of near-Earth asteroids (Carry 2012), weighted by how common they are.
+ * Each sample picks a class, then a density within it.
+ */
+const DENSITY_CLASSES = [
+    { weight: 0.75, mean: 2700, sd: 400 },   // stony (S / Q)
+    { weight: 0.20, mean: 1600, sd: 300 },   // carbonaceous rubble piles (C)
+    { weight: 0.05, mean: 7500, sd: 400 },   // metallic (M)
+]
+
+// Outermost ring of any hazard that kills or injures
+function reachKm(e: ImpactEffects) {
+    return Math.max(
+        e.crater.finalDiameterKm / 2,
+        ...e.blast.rings.map(r => r.radiusKm),
+        ...e.thermal.rings.map(r => r.radiusKm),
+        ...e.seismic.rings.map(r => r.radiusKm),
+    )
+}
+
+// Small seeded PRNG so the same inputs always give the same ensemble
+function mulberry32(seed: number) {
+    let a = seed >>> 0
+    return () => {
+        a = (a + 0x6d2b79f5) >>> 0
+        let t = a
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+}
+
+function gaussian(rand: () => number) {
+    const u = Math.max(1e-12, rand())
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rand())
+}
+
+function sampleDensity(rand: () => number) {
+    let pick = rand()
+    const cls = DENSITY_CLASSES.find(c => (pick -= c.weight) < 0) ?? DENSITY_CLASSES[0]
+    return Math.max(800, cls.mean + cls.sd * gaussian(rand))
+}
+
+/** Linear-interpolated percentile of an ascending array */
+function percentile(sorted: number[], p: number) {
+    if (sorted.length === 0) return 0
+    const i = (sorted.length - 1) * p
+    const lo = Math.floor(i)
+    const hi = Math.ceil(i)
+    return sorted[lo] + (sorted[hi] - sorted[lo]) * (i - lo)
+}
+
+function spread(values: number[]): Spread {
+    const s = [...values].sort((a, b) => a - b)
+    return { median: percentile(s, 0.5), p5: percentile(s, 0.05), p95: percentile(s, 0.95) }
+}
+
+/**
+ * Monte Carlo run of the hazard pipeline.
+ * - Diameter: log-uniform between the min and max estimates
+ * - Density: drawn from the NEA taxonomic mix above
+ * - Angle: P(θ) ∝ sin 2θ (Shoemaker 1962), sampled as θ = asin(√u)
+ * - Casualties: the ring model on a radial population profile counted once for all runs;
+ *   flooding is left out, as it needs the coastal elevation grid of every run
+ */
+export async function runEnsemble(params: {
+    diameterMinM: number
+    diameterMaxM: number
+    speedKms: number
+    site: ImpactSite
+    lat: number
+    lon: number
+    population?: PopulationProvider
+    runs?: number
+    seed?: number
+}): Promise<EnsembleResult> {
+    const runs = Math.max(1, Math.round(params.runs ?? DEFAULT_ENSEMBLE_RUNS))
+    const rand = mulberry32(params.seed ?? 1)
+    const dMin = Math.max(0.1, Math.min(params.diameterMinM, params.diameterMaxM))
+    const dMax = Math.max(dMin, params.diameterMinM, params.diameterMaxM)
+
+    const cols = {
+        diameterM: [] as number[], densityKgM3: [] as number[], angleDeg: [] as number[],
+        energyMt: [] as number[], craterKm: [] as number[],
+        blast5psiKm: [] as number[], blast1psiKm: [] as number[], casualties: [] as number[],
+    }
+    const samples: ImpactEffects[] = []
+
+    for (let i = 0; i < runs; i++) {
+        const diameterM = dMin * Math.pow(dMax / dMin, rand())
+        const densityKgM3 = sampleDensity(rand)
+        const angleDeg = Math.asin(Math.sqrt(rand())) * 180 / Math.PI
+
+        const effects = computeImpactEffects({ diameterM, densityKgM3, speedKms: params.speedKms, angleDeg }, params.site)
+        samples.push(effects)
+
+        cols.diameterM.push(diameterM)
+        cols.densityKgM3.push(densityKgM3)
+        cols.angleDeg.push(angleDeg)
+        cols.energyMt.push(effects.energyMt)
+        cols.craterKm.push(effects.crater.finalDiameterKm)
+        cols.blast5psiKm.push(casualtyBlastRadiusKm(effects))
+        cols.blast1psiKm.push(outerBlastRadiusKm(effects))
+    }
+
+    const { lat, lon } = params
+    const reach = Math.max(...samples.map(reachKm))
+    const shells = Array.from({ length: PROFILE_SHELLS }, (_, i) => reach * PROFILE_INNER_FRACTION ** (1 - (i + 1) / PROFILE_SHELLS))
+    const population = await radialProfile(params.population ?? getProviders().population, lat, lon, shells)
+    for (const effects of samples) {
+        cols.casualties.push((await estimateRingCasualties({ lat, lon, effects, population })).deaths)
+    }
+
+    return {
+        runs,
+        diameterM: spread(cols.diameterM),
+        densityKgM3: spread(cols.densityKgM3),
+        angleDeg: spread(cols.angleDeg),
+        energyMt: spread(cols.energyMt),
+        craterKm: spread(cols.craterKm),
+        blast5psiKm: spread(cols.blast5psiKm),
+        blast1psiKm: spread(cols.blast1psiKm),
+        casualties: spread(cols.casualties),
+    }
+}
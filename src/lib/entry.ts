@@ -0,0 +1,115 @@
+// src/lib/entry.ts
+export type EntryOutcome = 'intact' | 'airburst' | 'ground-fragmented'
+
+export type EntryAssessment = {
+    outcome: EntryOutcome
+    breakupAltitudeKm: number | null   // null when the body never fragments
+    airburstAltitudeKm: number | null  // null when the debris cloud reaches the ground
+    totalEnergyMt: number              // kinetic energy at the top of the atmosphere
+    airburstEnergyMt: number           // energy deposited in the atmosphere
+    groundEnergyMt: number             // energy still carried at the surface
+    impactSpeedKms: number             // speed at the surface
+}
+
+// Atmosphere / drag constants (Collins, Melosh & Marcus 2005)
+const SCALE_HEIGHT_M = 8000
+const SURFACE_AIR_DENSITY = 1        // kg/m³
+const DRAG_COEFF = 2
+const PANCAKE_FACTOR = 7             // max spread of the fragment cloud (L / L0)
+const J_PER_MT = 4.184e15
+const EARTH_ESCAPE_KMS = 11.2
+
+/**
+ * Speed at the top of the atmosphere for a body approaching at v∞ (hyperbolic excess speed):
+ * Earth's gravity adds its escape speed in quadrature, v_imp = √(v∞² + 11.2²).
+ */
+export function entrySpeedFromVInfinity(vInfinityKms: number) {
+    const v = Math.max(0, vInfinityKms)
+    return Math.sqrt(v * v + EARTH_ESCAPE_KMS * EARTH_ESCAPE_KMS)
+}
+
+const airDensity = (zM: number) => SURFACE_AIR_DENSITY * Math.exp(-zM / SCALE_HEIGHT_M)
+
+/** Yield strength of the impactor (Pa) from its bulk density */
+export function yieldStrengthPa(densityKgM3: number) {
+    return Math.pow(10, 2.107 + 0.0624 * Math.sqrt(densityKgM3))
+}
+
+/**
+ * Pancake / fragmentation entry model.
+ * - The body decelerates intact until ram pressure exceeds its yield strength (breakup).
+ * - After breakup the fragment cloud spreads laterally; once it has spread to
+ *   PANCAKE_FACTOR × its initial diameter above the ground, it is treated as an airburst.
+ * - Speed is integrated down to the surface to get the energy that actually reaches the ground.
+ */
+export function assessEntry(params: {
+    diameterM: number
+    densityKgM3: number
+    speedKms: number
+    angleDeg: number       // entry angle from horizontal
+}): EntryAssessment {
+    const L0 = Math.max(0.1, params.diameterM)
+    const rhoI = Math.max(100, params.densityKgM3)
+    const v0 = Math.max(0.1, params.speedKms) * 1000
+    const sinT = Math.sin(Math.max(1, Math.min(90, params.angleDeg)) * Math.PI / 180)
+    const H = SCALE_HEIGHT_M
+
+    const mass = rhoI * (Math.PI / 6) * L0 * L0 * L0
+    const energyMt = (v: number) => 0.5 * mass * v * v / J_PER_MT
+    const totalEnergyMt = energyMt(v0)
+
+    const result = (outcome: EntryOutcome, breakupM: number | null, airburstM: number | null, vGround: number): EntryAssessment => {
+        const groundEnergyMt = energyMt(vGround)
+        return {
+            outcome,
+            breakupAltitudeKm: breakupM == null ? null : breakupM / 1000,
+            airburstAltitudeKm: airburstM == null ? null : airburstM / 1000,
+            totalEnergyMt,
+            airburstEnergyMt: Math.max(0, totalEnergyMt - groundEnergyMt),
+            groundEnergyMt,
+            impactSpeedKms: vGround / 1000,
+        }
+    }
+
+    // Intact deceleration from the top of the atmosphere down to altitude z
+    const intactSpeed = (zM: number) =>
+        v0 * Math.exp(-3 * airDensity(zM) * DRAG_COEFF * H / (4 * rhoI * L0 * sinT))
+
+    const Y = yieldStrengthPa(rhoI)
+    const If = 4.07 * DRAG_COEFF * H * Y / (rhoI * L0 * v0 * v0 * sinT)
+
+    // Strong enough to reach the ground in one piece
+    if (If >= 1) return result('intact', null, null, intactSpeed(0))
+
+    const zStar = -H * (Math.log(Y / (SURFACE_AIR_DENSITY * v0 * v0)) + 1.308 - 0.314 * If - 1.303 * Math.sqrt(1 - If))
+    if (zStar <= 0) return result('intact', null, null, intactSpeed(0))
+
+    const vStar = intactSpeed(zStar)
+    const rhoStar = airDensity(zStar)
+
+    // Dispersion length scale and the altitude where the cloud reaches the pancake limit
+    const l = L0 * sinT * Math.sqrt(rhoI / (DRAG_COEFF * rhoStar))
+    const zBurst = zStar - 2 * H * Math.log(1 + (l / (2 * H)) * Math.sqrt(PANCAKE_FACTOR * PANCAKE_FACTOR - 1))
+
+    const spread = (zM: number) => {
+        const g = Math.exp((zStar - zM) / (2 * H)) - 1
+        return Math.min(PANCAKE_FACTOR * L0, L0 * Math.sqrt(1 + (2 * H / l) ** 2 * g * g))
+    }
+
+    // ln v(z) = ln v(z*) - 3 C_D / (4 ρi L0³ sinθ) ∫_z^{z*} ρ(z') L(z')² dz'
+    const steps = 600
+    const dz = zStar / steps
+    let integral = 0
+    for (let i = 0; i < steps; i++) {
+        const zA = zStar - i * dz
+        const zB = zA - dz
+        const fA = airDensity(zA) * spread(zA) ** 2
+        const fB = airDensity(zB) * spread(zB) ** 2
+        integral += 0.5 * (fA + fB) * dz
+    }
+    const vGround = vStar * Math.exp(-3 * DRAG_COEFF * integral / (4 * rhoI * L0 * L0 * L0 * sinT))
+
+    return zBurst > 0
+        ? result('airburst', zStar, zBurst, vGround)
+        : result('ground-fragmented', zStar, null, vGround)
+}
@@ -0,0 +1,11 @@
+// src/lib/geo.ts
+const EARTH_RADIUS_KM = 6371
+
+const toRad = (d: number) => d * Math.PI / 180
+
+/** Great-circle (haversine) distance in km between two points on a spherical Earth */
+export function haversineKm(lat1: number, lon1: number, lat2: number, lon2: number) {
+    const a = Math.sin(toRad(lat2 - lat1) / 2) ** 2
+        + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(toRad(lon2 - lon1) / 2) ** 2
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)))
+}
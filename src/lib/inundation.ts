@@ -0,0 +1,99 @@
+// src/lib/inundation.ts
+import { tsunamiAtDistance, type TsunamiPropagation } from './tsunami'
+import type { ElevationGrid } from './elevation'
+import { haversineKm } from './geo'
+
+export type FloodedCell = {
+    south: number
+    west: number
+    north: number
+    east: number
+    depthM: number          // run-up height above the ground
+}
+
+export type InundationResult = {
+    cells: FloodedCell[]
+    floodedAreaKm2: number
+    maxRunUpM: number
+}
+
+const KM_PER_DEG = 111.32
+const SHORE_DEPTH_M = 10    // depth where Green's-law shoaling stops and the wave runs up
+
+const toRad = (d: number) => d * Math.PI / 180
+
+/**
+ * Run-up (m) on the shore for a wave of height H that travelled over water of depth h:
+ * Green's law shoaling, H_shore = H (h / h_shore)^(1/4), taken as the run-up height.
+ */
+export function runUpHeightM(waveHeightM: number, waterDepthM: number) {
+    const h = Math.max(SHORE_DEPTH_M, waterDepthM)
+    return waveHeightM * Math.pow(h / SHORE_DEPTH_M, 0.25)
+}
+
+/**
+ * Floods land cells whose elevation is below the local run-up height.
+ * Water spreads from sea cells to neighbouring cells (4-connected), so basins cut off
+ * from the sea by higher ground stay dry.
+ */
+export function computeInundation(
+    grid: ElevationGrid,
+    impactLat: number,
+    impactLon: number,
+    tsunami: TsunamiPropagation
+): InundationResult {
+    const { rows, cols, elevationsM } = grid
+    const cellLat = (grid.north - grid.south) / rows
+    const cellLon = (grid.east - grid.west) / cols
+    const empty = { cells: [], floodedAreaKm2: 0, maxRunUpM: 0 }
+    if (tsunami.cavityDiameterKm <= 0 || elevationsM.length !== rows * cols) return empty
+
+    const runUp = new Float64Array(rows * cols)
+    for (let r = 0; r < rows; r++) {
+        for (let c = 0; c < cols; c++) {
+            const lat = grid.south + (r + 0.5) * cellLat
+            const lon = grid.west + (c + 0.5) * cellLon
+            const { waveHeightM } = tsunamiAtDistance(tsunami, haversineKm(impactLat, impactLon, lat, lon))
+            runUp[r * cols + c] = runUpHeightM(waveHeightM, tsunami.waterDepthM)
+        }
+    }
+
+    // Breadth-first flood from every sea cell
+    const wet = new Uint8Array(rows * cols)
+    const queue: number[] = []
+    elevationsM.forEach((e, i) => { if (e < 0) { wet[i] = 1; queue.push(i) } })
+    for (let q = 0; q < queue.length; q++) {
+        const i = queue[q]
+        const r = Math.floor(i / cols)
+        const c = i % cols
+        const neighbours = [
+            r > 0 ? i - cols : -1,
+            r < rows - 1 ? i + cols : -1,
+            c > 0 ? i - 1 : -1,
+            c < cols - 1 ? i + 1 : -1,
+        ]
+        for (const j of neighbours) {
+            if (j < 0 || wet[j]) continue
+            if (elevationsM[j] < runUp[j]) {
+                wet[j] = 1
+                queue.push(j)
+            }
+        }
+    }
+
+    const cells: FloodedCell[] = []
+    let floodedAreaKm2 = 0
+    let maxRunUpM = 0
+    for (let i = 0; i < rows * cols; i++) {
+        if (!wet[i] || elevationsM[i] < 0) continue
+        const r = Math.floor(i / cols)
+        const c = i % cols
+        const south = grid.south + r * cellLat
+        const west = grid.west + c * cellLon
+        cells.push({ south, west, north: south + cellLat, east: west + cellLon, depthM: runUp[i] - elevationsM[i] })
+        floodedAreaKm2 += (cellLat * KM_PER_DEG) * (cellLon * KM_PER_DEG * Math.cos(toRad(south + cellLat / 2)))
+        maxRunUpM = Math.max(maxRunUpM, runUp[i])
+    }
+
+    return { cells, floodedAreaKm2, maxRunUpM }
+}
@@ -0,0 +1,217 @@
+// src/lib/orbit.ts
+export type Vec3 = { x: number; y: number; z: number }
+
+/** Osculating heliocentric elements, ecliptic J2000 frame (as NASA's orbital_data reports them) */
+export type OrbitalElements = {
+    semiMajorAxisAU: number
+    eccentricity: number
+    inclinationDeg: number
+    ascendingNodeDeg: number     // Ω, longitude of the ascending node
+    perihelionArgDeg: number     // ω, argument of perihelion
+    meanAnomalyDeg: number       // M at the epoch
+    epochJd: number              // Julian date the elements are osculating at
+}
+
+export type StateVector = {
+    positionAU: Vec3
+    velocityKms: Vec3
+}
+
+export type GeocentricApproach = {
+    jd: number
+    distanceKm: number           // centre to centre
+    speedKms: number             // relative speed; v∞ when far from Earth
+    relativeVelocityKms: Vec3    // asteroid minus Earth, ecliptic frame
+    radiantLonDeg: number        // ecliptic direction the asteroid arrives from, as seen from Earth
+    radiantLatDeg: number
+}
+
+// Gaussian gravitational constant: GM☉ = k² AU³/day²
+const GAUSS_K = 0.01720209895
+const GM_SUN = GAUSS_K * GAUSS_K
+export const KM_PER_AU = 149_597_870.7
+export const KM_PER_LD = 384_400            // lunar distance: mean Earth–Moon distance
+const SECONDS_PER_DAY = 86_400
+const KMS_PER_AU_DAY = KM_PER_AU / SECONDS_PER_DAY
+
+const J2000_JD = 2451545.0
+const OBLIQUITY_DEG = 23.4392911            // mean obliquity of the ecliptic at J2000
+const UNIX_EPOCH_JD = 2440587.5
+
+const KEPLER_TOLERANCE = 1e-12
+const KEPLER_MAX_ITERATIONS = 50
+
+/**
+ * Earth–Moon barycentre at J2000 (Standish, JPL "Keplerian Elements for Approximate Positions").
+ * Propagated two-body like any asteroid, it stays within ~0.001 AU over a few decades.
+ */
+export const EARTH_ELEMENTS: OrbitalElements = {
+    semiMajorAxisAU: 1.00000261,
+    eccentricity: 0.01671123,
+    inclinationDeg: -0.00001531,
+    ascendingNodeDeg: 0,
+    perihelionArgDeg: 102.93768193,
+    meanAnomalyDeg: 100.46457166 - 102.93768193,   // mean longitude − longitude of perihelion
+    epochJd: J2000_JD,
+}
+
+const toRad = (d: number) => d * Math.PI / 180
+const toDeg = (r: number) => r * 180 / Math.PI
+
+export function julianDate(date: Date) {
+    return date.getTime() / (SECONDS_PER_DAY * 1000) + UNIX_EPOCH_JD
+}
+
+export function dateFromJulian(jd: number) {
+    return new Date((jd - UNIX_EPOCH_JD) * SECONDS_PER_DAY * 1000)
+}
+
+/**
+ * Eccentric anomaly E from mean anomaly M (radians): Newton's method on M = E − e·sin E.
+ * Starting from E = π when e is high keeps the iteration from overshooting.
+ */
+export function solveKepler(meanAnomalyRad: number, eccentricity: number) {
+    const e = eccentricity
+    if (!(e >= 0 && e < 1)) throw new Error(`Kepler solver needs an elliptic orbit (e = ${e})`)
+    const M = ((meanAnomalyRad % (2 * Math.PI)) + 3 * Math.PI) % (2 * Math.PI) - Math.PI   // wrap to [−π, π)
+    let E = e < 0.8 ? M : Math.PI * Math.sign(M || 1)
+    for (let i = 0; i < KEPLER_MAX_ITERATIONS; i++) {
+        const dE = (E - e * Math.sin(E) - M) / (1 - e * Math.cos(E))
+        E -= dE
+        if (Math.abs(dE) < KEPLER_TOLERANCE) break
+    }
+    return E
+}
+
+/** Mean motion (degrees / day) of a two-body orbit around the Sun */
+export function meanMotionDegPerDay(semiMajorAxisAU: number) {
+    return toDeg(Math.sqrt(GM_SUN / semiMajorAxisAU ** 3))
+}
+
+// Rz(Ω) · Rx(i) · Rz(ω): perifocal frame (x towards perihelion) to the ecliptic frame
+function perifocalToEcliptic(el: OrbitalElements) {
+    const cO = Math.cos(toRad(el.ascendingNodeDeg)), sO = Math.sin(toRad(el.ascendingNodeDeg))
+    const cw = Math.cos(toRad(el.perihelionArgDeg)), sw = Math.sin(toRad(el.perihelionArgDeg))
+    const ci = Math.cos(toRad(el.inclinationDeg)), si = Math.sin(toRad(el.inclinationDeg))
+    return (x: number, y: number): Vec3 => ({
+        x: (cO * cw - sO * sw * ci) * x + (-cO * sw - sO * cw * ci) * y,
+        y: (sO * cw + cO * sw * ci) * x + (-sO * sw + cO * cw * ci) * y,
+        z: (sw * si) * x + (cw * si) * y,
+    })
+}
+
+/** Point on the orbit (AU, ecliptic frame) at an eccentric anomaly; no timing involved */
+export function orbitPosition(el: OrbitalElements, eccentricAnomalyRad: number): Vec3 {
+    const a = el.semiMajorAxisAU
+    const e = el.eccentricity
+    return perifocalToEcliptic(el)(a * (Math.cos(eccentricAnomalyRad) - e), a * Math.sqrt(1 - e * e) * Math.sin(eccentricAnomalyRad))
+}
+
+/**
+ * Heliocentric position and velocity at a Julian date, two-body around the Sun.
+ * - M advances at the mean motion from the epoch, then Kepler's equation gives E
+ * - Perifocal position/velocity are rotated by ω, i, Ω into the ecliptic frame
+ * Planetary perturbations are ignored, so accuracy degrades years away from the epoch.
+ */
+export function stateAt(el: OrbitalElements, jd: number): StateVector {
+    const a = el.semiMajorAxisAU
+    const e = el.eccentricity
+    const n = Math.sqrt(GM_SUN / (a * a * a))                    // rad / day
+    const E = solveKepler(toRad(el.meanAnomalyDeg) + n * (jd - el.epochJd), e)
+
+    const cosE = Math.cos(E)
+    const sinE = Math.sin(E)
+    const b = a * Math.sqrt(1 - e * e)
+    const r = a * (1 - e * cosE)
+
+    // Perifocal frame: x towards perihelion, y 90° ahead in the orbit plane
+    const px = a * (cosE - e)
+    const py = b * sinE
+    const vx = -a * n * sinE * (a / r)
+    const vy = b * n * cosE * (a / r)
+
+    const rotate = perifocalToEcliptic(el)
+    return {
+        positionAU: rotate(px, py),
+        velocityKms: scale(rotate(vx, vy), KMS_PER_AU_DAY),
+    }
+}
+
+/** Earth's heliocentric state, from EARTH_ELEMENTS */
+export function earthStateAt(jd: number) {
+    return stateAt(EARTH_ELEMENTS, jd)
+}
+
+/** Asteroid relative to Earth at a Julian date, with the direction it is coming from */
+export function geocentricStateAt(el: OrbitalElements, jd: number): GeocentricApproach {
+    const body = stateAt(el, jd)
+    const earth = earthStateAt(jd)
+    const rel = sub(body.velocityKms, earth.velocityKms)
+    const speedKms = length(rel)
+    // The radiant is opposite the relative velocity
+    const radiant = scale(rel, -1 / Math.max(speedKms, 1e-9))
+    return {
+        jd,
+        distanceKm: length(sub(body.positionAU, earth.positionAU)) * KM_PER_AU,
+        speedKms,
+        relativeVelocityKms: rel,
+        radiantLonDeg: (toDeg(Math.atan2(radiant.y, radiant.x)) + 360) % 360,
+        radiantLatDeg: toDeg(Math.asin(Math.max(-1, Math.min(1, radiant.z)))),
+    }
+}
+
+/**
+ * Height (deg) of the radiant above the horizon at a site, at the approach time.
+ * - Ecliptic → equatorial with the J2000 obliquity; local sidereal time from GMST (Meeus 12.4)
+ * - Without gravitational bending this is the entry angle from horizontal; ≤ 0 means the
+ *   body cannot reach that site
+ */
+export function radiantAltitudeDeg(a: GeocentricApproach, latDeg: number, lonDeg: number) {
+    const lam = toRad(a.radiantLonDeg)
+    const beta = toRad(a.radiantLatDeg)
+    const eps = toRad(OBLIQUITY_DEG)
+    const x = Math.cos(beta) * Math.cos(lam)
+    const y = Math.cos(beta) * Math.sin(lam) * Math.cos(eps) - Math.sin(beta) * Math.sin(eps)
+    const z = Math.cos(beta) * Math.sin(lam) * Math.sin(eps) + Math.sin(beta) * Math.cos(eps)
+    const dec = Math.asin(Math.max(-1, Math.min(1, z)))
+    const ra = Math.atan2(y, x)
+
+    const gmstDeg = 280.46061837 + 360.98564736629 * (a.jd - J2000_JD)
+    const hourAngle = toRad(gmstDeg + lonDeg) - ra
+    const lat = toRad(latDeg)
+    const sinAlt = Math.sin(lat) * Math.sin(dec) + Math.cos(lat) * Math.cos(dec) * Math.cos(hourAngle)
+    return toDeg(Math.asin(Math.max(-1, Math.min(1, sinAlt))))
+}
+
+/**
+ * Closest approach to Earth between two Julian dates.
+ * - Coarse scan at `stepDays`, then golden-section refinement around the best sample
+ * - Earth's gravity is not modelled, so the speed is the hyperbolic excess v∞ and the distance
+ *   is the unfocused miss distance
+ */
+export function findClosestApproach(el: OrbitalElements, startJd: number, endJd: number, stepDays = 0.5): GeocentricApproach {
+    const distance = (jd: number) => length(sub(stateAt(el, jd).positionAU, earthStateAt(jd).positionAU))
+
+    let bestJd = startJd
+    let bestD = Infinity
+    for (let jd = startJd; jd <= endJd; jd += stepDays) {
+        const d = distance(jd)
+        if (d < bestD) { bestD = d; bestJd = jd }
+    }
+
+    const phi = (Math.sqrt(5) - 1) / 2
+    let lo = Math.max(startJd, bestJd - stepDays)
+    let hi = Math.min(endJd, bestJd + stepDays)
+    while (hi - lo > 1e-6) {   // ~0.1 s
+        const m1 = hi - phi * (hi - lo)
+        const m2 = lo + phi * (hi - lo)
+        if (distance(m1) < distance(m2)) hi = m2
+        else lo = m1
+    }
+    return geocentricStateAt(el, (lo + hi) / 2)
+}
+
+// ---------- vector helpers ----------
+const sub = (a: Vec3, b: Vec3): Vec3 => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z })
+const scale = (a: Vec3, k: number): Vec3 => ({ x: a.x * k, y: a.y * k, z: a.z * k })
+const length = (a: Vec3) => Math.hypot(a.x, a.y, a.z)
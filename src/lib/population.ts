@@ -0,0 +1,164 @@
+// src/lib/population.ts
+export type PopulationSource = 'bundled'
+
+// World Bank regions, in the order the bundled region grid stores them (code = index + 1)
+export const WORLD_REGIONS = [
+    'North America',
+    'Europe & Central Asia',
+    'East Asia & Pacific',
+    'Latin America & Caribbean',
+    'Middle East & North Africa',
+    'South Asia',
+    'Sub-Saharan Africa',
+    'Antarctica',
+] as const
+
+export type WorldRegion = typeof WORLD_REGIONS[number]
+
+export type PopulationProvider = {
+    name: PopulationSource
+    densityAt: (lat: number, lon: number) => Promise<number>   // people / km²
+    /** People living between `innerKm` and `outerKm` of a point */
+    populationInRing: (lat: number, lon: number, innerKm: number, outerKm: number) => Promise<number>
+    /** Region of the country at a point; at sea, the nearest country's */
+    regionAt: (lat: number, lon: number) => Promise<WorldRegion | null>
+}
+
+// Layout of public/data/population-0.5deg.bin and region-0.5deg.bin (see scripts/build-population-grid.mjs)
+const BUNDLED_URL = '/data/population-0.5deg.bin'
+const REGION_URL = '/data/region-0.5deg.bin'
+const BUNDLED_COLS = 720
+const BUNDLED_ROWS = 360
+const BUNDLED_STEP_DEG = 0.5
+
+const EARTH_RADIUS_KM = 6371
+const CELL_KM = BUNDLED_STEP_DEG * 111.32
+const MAX_RADIAL_STEPS = 60
+const AZIMUTH_STEPS = 48
+
+const toRad = (d: number) => d * Math.PI / 180
+const toDeg = (r: number) => r * 180 / Math.PI
+
+let bundledGrid: Promise<Float32Array> | null = null
+let regionGrid: Promise<Uint8Array> | null = null
+
+function loadBundledGrid() {
+    if (!bundledGrid) {
+        bundledGrid = fetch(BUNDLED_URL)
+            .then(r => {
+                if (!r.ok) throw new Error(`Bundled population grid missing (${r.status})`)
+                return r.arrayBuffer()
+            })
+            .then(buf => new Float32Array(buf))
+            .catch(err => {
+                bundledGrid = null   // allow a retry on the next lookup
+                throw err
+            })
+    }
+    return bundledGrid
+}
+
+function loadRegionGrid() {
+    if (!regionGrid) {
+        regionGrid = fetch(REGION_URL)
+            .then(r => {
+                if (!r.ok) throw new Error(`Bundled region grid missing (${r.status})`)
+                return r.arrayBuffer()
+            })
+            .then(buf => new Uint8Array(buf))
+            .catch(err => {
+                regionGrid = null
+                throw err
+            })
+    }
+    return regionGrid
+}
+
+// Index of the 0.5° cell containing a point
+function cellIndex(lat: number, lon: number) {
+    const r = Math.max(0, Math.min(BUNDLED_ROWS - 1, Math.floor((90 - lat) / BUNDLED_STEP_DEG)))
+    const c = ((Math.floor((lon + 180) / BUNDLED_STEP_DEG) % BUNDLED_COLS) + BUNDLED_COLS) % BUNDLED_COLS
+    return r * BUNDLED_COLS + c
+}
+
+/** Density (people / km²) of the 0.5° cell containing a point; cells are uniform inside */
+export function sampleBundledGrid(data: Float32Array, lat: number, lon: number) {
+    return data[cellIndex(lat, lon)]
+}
+
+/** Point `distanceKm` from (lat, lon) along `bearingRad`, on a sphere */
+function destination(lat: number, lon: number, distanceKm: number, bearingRad: number) {
+    const d = distanceKm / EARTH_RADIUS_KM
+    const p1 = toRad(lat)
+    const p2 = Math.asin(Math.sin(p1) * Math.cos(d) + Math.cos(p1) * Math.sin(d) * Math.cos(bearingRad))
+    const l2 = toRad(lon) + Math.atan2(Math.sin(bearingRad) * Math.sin(d) * Math.cos(p1), Math.cos(d) - Math.sin(p1) * Math.sin(p2))
+    return { lat: toDeg(p2), lon: toDeg(l2) }
+}
+
+/**
+ * People between two radii: midpoint rule over a polar grid of annular sectors.
+ * - Radial steps follow the grid resolution (about one per half cell), so small rings cost little
+ * - Each sector's area uses the spherical-cap formula, so rings thousands of km wide stay honest
+ */
+export function integrateRing(data: Float32Array, lat: number, lon: number, innerKm: number, outerKm: number) {
+    const r0 = Math.max(0, Math.min(innerKm, outerKm))
+    const r1 = Math.max(0, innerKm, outerKm)
+    if (r1 <= r0) return 0
+
+    const nR = Math.max(1, Math.min(MAX_RADIAL_STEPS, Math.ceil((r1 - r0) / (CELL_KM / 2))))
+    const nA = r1 < CELL_KM / 4 ? 1 : AZIMUTH_STEPS
+    const capArea = (r: number) => 2 * Math.PI * EARTH_RADIUS_KM ** 2 * (1 - Math.cos(r / EARTH_RADIUS_KM))
+
+    let people = 0
+    for (let i = 0; i < nR; i++) {
+        const a = r0 + (r1 - r0) * i / nR
+        const b = r0 + (r1 - r0) * (i + 1) / nR
+        const sectorKm2 = (capArea(b) - capArea(a)) / nA
+        const mid = (a + b) / 2
+        for (let j = 0; j < nA; j++) {
+            const p = destination(lat, lon, mid, 2 * Math.PI * (j + 0.5) / nA)
+            people += sampleBundledGrid(data, p.lat, p.lon) * sectorKm2
+        }
+    }
+    return people
+}
+
+/** Coarse gridded population (country totals spread by terrain) shipped with the app; works offline */
+export const bundledPopulationProvider: PopulationProvider = {
+    name: 'bundled',
+    densityAt: async (lat, lon) => sampleBundledGrid(await loadBundledGrid(), lat, lon),
+    populationInRing: async (lat, lon, innerKm, outerKm) => integrateRing(await loadBundledGrid(), lat, lon, innerKm, outerKm),
+    regionAt: async (lat, lon) => {
+        const code = (await loadRegionGrid())[cellIndex(lat, lon)]
+        return code > 0 ? WORLD_REGIONS[code - 1] ?? null : null
+    },
+}
+
+/**
+ * Counts the people around one point once, shell by shell, for callers that ask for many rings there.
+ * - Rings inside a shell take its people in proportion to area (linear in r²)
+ * - Other points, and radii beyond the last shell, go to the wrapped provider
+ */
+export async function radialProfile(base: PopulationProvider, lat: number, lon: number, radiiKm: number[]): Promise<PopulationProvider> {
+    const radii = [0, ...new Set(radiiKm.filter(r => r > 0))].sort((a, b) => a - b)
+    const cumulative = [0]
+    for (let i = 1; i < radii.length; i++) {
+        cumulative.push(cumulative[i - 1] + await base.populationInRing(lat, lon, radii[i - 1], radii[i]))
+    }
+    const reachKm = radii[radii.length - 1]
+
+    const within = (r: number) => {
+        const i = radii.findIndex(x => x >= r)
+        if (i <= 0) return 0
+        const t = (r * r - radii[i - 1] ** 2) / (radii[i] ** 2 - radii[i - 1] ** 2)
+        return cumulative[i - 1] + (cumulative[i] - cumulative[i - 1]) * t
+    }
+
+    return {
+        ...base,
+        populationInRing: async (pLat, pLon, innerKm, outerKm) =>
+            pLat === lat && pLon === lon && Math.max(innerKm, outerKm) <= reachKm
+                ? Math.max(0, within(Math.max(innerKm, outerKm)) - within(Math.max(0, Math.min(innerKm, outerKm))))
+                : base.populationInRing(pLat, pLon, innerKm, outerKm),
+    }
+}
@@ -0,0 +1,191 @@
+// src/lib/risk.ts
+import { EARTH_ELEMENTS, KM_PER_AU, orbitPosition, type OrbitalElements, type Vec3 } from './orbit'
+
+export type TorinoLevel = 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10
+export type TorinoCategory = 'none' | 'normal' | 'attention' | 'threatening' | 'certain'
+
+export type RiskScales = {
+    probability: number
+    energyMt: number
+    years: number
+    torino: TorinoLevel
+    torinoCategory: TorinoCategory
+    palermo: number             // −Infinity when the probability is zero
+}
+
+const EARTH_RADIUS_KM = 6371
+const EARTH_ESCAPE_KMS = 11.19
+
+// Coarse MOID scan step, then local refinement down to ~0.2″ of anomaly
+const MOID_SCAN_STEPS = 360
+const MOID_MIN_STEP_RAD = 1e-6
+
+// MPC uncertainty parameter U: ln(RUNC) in steps of ln(648000″)/9, RUNC after 10 years
+const U_STEP = Math.log(648000) / 9
+const RUNC_YEARS = 10
+const ARCSEC_RAD = Math.PI / 648000
+
+// Background impact frequency of the Palermo scale (Chesley et al. 2002), per year
+const palermoBackground = (energyMt: number) => 0.03 * Math.pow(energyMt, -0.8)
+
+/** Colours of the Torino scale categories (white, green, yellow, orange, red) */
+export const TORINO_COLORS: Record<TorinoCategory, string> = {
+    none: '#ffffff',
+    normal: '#66ff66',
+    attention: '#ffe066',
+    threatening: '#ffa500',
+    certain: '#ff4d4d',
+}
+
+export const TORINO_LABELS: Record<TorinoCategory, string> = {
+    none: 'No hazard',
+    normal: 'Normal',
+    attention: 'Meriting attention by astronomers',
+    threatening: 'Threatening',
+    certain: 'Certain collision',
+}
+
+const dist = (a: Vec3, b: Vec3) => Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z)
+
+/**
+ * Minimum distance between the asteroid's and Earth's orbits (AU).
+ * - Both ellipses are scanned every 1° of eccentric anomaly
+ * - The best pair is refined by pattern search, halving the step until it is below 1e-6 rad
+ */
+export function earthMoidAU(el: OrbitalElements) {
+    const n = MOID_SCAN_STEPS
+    const step = 2 * Math.PI / n
+    const earth = Array.from({ length: n }, (_, k) => orbitPosition(EARTH_ELEMENTS, k * step))
+    const body = Array.from({ length: n }, (_, k) => orbitPosition(el, k * step))
+
+    let best = { u: 0, v: 0, d: Infinity }
+    for (let i = 0; i < n; i++) {
+        for (let j = 0; j < n; j++) {
+            const d = dist(body[i], earth[j])
+            if (d < best.d) best = { u: i * step, v: j * step, d }
+        }
+    }
+
+    const at = (u: number, v: number) => dist(orbitPosition(el, u), orbitPosition(EARTH_ELEMENTS, v))
+    for (let h = step; h > MOID_MIN_STEP_RAD; h /= 2) {
+        let improved = true
+        while (improved) {
+            improved = false
+            for (const [du, dv] of [[h, 0], [-h, 0], [0, h], [0, -h], [h, h], [-h, -h], [h, -h], [-h, h]]) {
+                const d = at(best.u + du, best.v + dv)
+                if (d < best.d) {
+                    best = { u: best.u + du, v: best.v + dv, d }
+                    improved = true
+                }
+            }
+        }
+    }
+    return best.d
+}
+
+/**
+ * 1-σ along-track position uncertainty (km) after `years`, from the MPC U parameter.
+ * RUNC is the in-orbit longitude uncertainty after 10 years; it is grown linearly in time.
+ */
+export function alongTrackSigmaKm(orbitUncertainty: number, semiMajorAxisAU: number, years: number) {
+    // Middle of the U bin on the log scale
+    const runcArcsec = Math.exp((Math.max(0, Math.min(9, orbitUncertainty)) - 0.5) * U_STEP)
+    return runcArcsec * ARCSEC_RAD * semiMajorAxisAU * KM_PER_AU * Math.max(0, years) / RUNC_YEARS
+}
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26 via erf)
+function normalCdf(x: number) {
+    const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2)
+    const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+        * Math.exp(-x * x / 2)
+    return x >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf)
+}
+
+/**
+ * Chance that one close approach ends in an impact, along the line of variations:
+ * - The uncertainty is stretched along-track, so the possible positions lie on a line
+ *   passing the Earth at the MOID; across-track error is neglected
+ * - Earth's capture radius is widened by gravitational focusing, b = R⊕ √(1 + v_esc²/v∞²)
+ * - The nominal position sits √(d² − MOID²) along that line; the probability is the Gaussian
+ *   mass on the chord inside b
+ */
+export function impactProbability(params: {
+    missDistanceKm: number
+    moidKm: number
+    vInfinityKms: number
+    sigmaKm: number
+}) {
+    const { missDistanceKm, moidKm, sigmaKm } = params
+    const v = Math.max(0.1, params.vInfinityKms)
+    const b = EARTH_RADIUS_KM * Math.sqrt(1 + (EARTH_ESCAPE_KMS / v) ** 2)
+    if (moidKm >= b) return 0
+
+    const halfChord = Math.sqrt(b * b - moidKm * moidKm)
+    const offset = Math.sqrt(Math.max(0, missDistanceKm * missDistanceKm - moidKm * moidKm))
+    if (!(sigmaKm > 0)) return offset <= halfChord ? 1 : 0
+    return Math.max(0, normalCdf((halfChord - offset) / sigmaKm) - normalCdf((-halfChord - offset) / sigmaKm))
+}
+
+/**
+ * Torino scale (Binzel 2000, revised 2005) from impact probability and kinetic energy.
+ * The chart's regions are approximated by:
+ * - Energy bands: local < 100 Mt ≤ regional < 100 000 Mt ≤ global; below 1 Mt nothing reaches the ground
+ * - Certain collision at P ≥ 0.99; threatening / attention at P ≥ 1%, split at P = 10%
+ * - Below 1% the diagonal boundaries follow the expected energy P·E
+ */
+export function torinoScale(probability: number, energyMt: number): TorinoLevel {
+    const P = probability
+    const E = energyMt
+    if (!(P > 0) || E < 1) return 0
+    const band = E < 1e2 ? 0 : E < 1e5 ? 1 : 2
+
+    if (P >= 0.99) return ([8, 9, 10] as const)[band]
+    if (P >= 1e-2) {
+        if (band === 0) return 3
+        if (band === 1) return P >= 0.1 ? 5 : 4
+        return P >= 0.1 ? 7 : 6
+    }
+    const expectedMt = P * E
+    if (band === 2 && expectedMt >= 1e2) return 6
+    if (expectedMt >= 1) return 2
+    if (expectedMt >= 1e-4) return 1
+    return 0
+}
+
+export function torinoCategory(level: TorinoLevel): TorinoCategory {
+    if (level === 0) return 'none'
+    if (level === 1) return 'normal'
+    if (level <= 4) return 'attention'
+    if (level <= 7) return 'threatening'
+    return 'certain'
+}
+
+/**
+ * Palermo scale: PS = log10(P / (f_B · T)), the risk relative to the background
+ * of impacts at least as energetic over the years until the event.
+ */
+export function palermoScale(probability: number, energyMt: number, years: number) {
+    if (!(probability > 0)) return -Infinity
+    const T = Math.max(years, 1 / 365)
+    return Math.log10(probability / (palermoBackground(Math.max(energyMt, 1e-6)) * T))
+}
+
+/** Palermo colour: below −2 no concern, −2 … 0 merits monitoring, ≥ 0 above the background */
+export function palermoColor(ps: number) {
+    if (ps < -2) return TORINO_COLORS.normal
+    if (ps < 0) return TORINO_COLORS.attention
+    return TORINO_COLORS.certain
+}
+
+/** Both scales for one potential impact */
+export function assessRiskScales(probability: number, energyMt: number, years: number): RiskScales {
+    const torino = torinoScale(probability, energyMt)
+    return {
+        probability,
+        energyMt,
+        years,
+        torino,
+        torinoCategory: torinoCategory(torino),
+        palermo: palermoScale(probability, energyMt, years),
+    }
+}
@@ -0,0 +1,110 @@
+// src/lib/seismic.ts
+export type MmiRing = {
+    mmi: number            // contour level (I–XII as 1–12)
+    roman: string
+    radiusKm: number       // 0 when this intensity is never reached
+    description: string
+}
+
+export type SeismicAssessment = {
+    magnitude: number      // impact-equivalent Richter magnitude, -Infinity without ground energy
+    seismicEnergyJ: number
+    efficiency: number
+    rings: MmiRing[]       // ordered from innermost (strongest) to outermost
+}
+
+/** Contour colours, red for destructive intensities down to pale for weak shaking */
+export const MMI_COLORS: Record<number, string> = {
+    10: '#c62828',
+    8: '#ff6b35',
+    6: '#ffa726',
+    4: '#ffe082',
+}
+
+const J_PER_MT = 4.184e15
+const KM_PER_DEG = 111.2
+const DEFAULT_SEISMIC_EFFICIENCY = 1e-4   // fraction of ground energy radiated as seismic waves
+const CONTOUR_LEVELS = [10, 8, 6, 4]
+
+const ROMAN = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII', 'VIII', 'IX', 'X', 'XI', 'XII']
+
+/** Felt effects per Modified Mercalli intensity (abridged USGS descriptions) */
+const MMI_DESCRIPTIONS = [
+    'Not felt except by a very few under especially favorable conditions.',
+    'Felt only by a few persons at rest, especially on upper floors.',
+    'Felt quite noticeably indoors; standing cars may rock slightly.',
+    'Felt indoors by many; dishes, windows and doors disturbed.',
+    'Felt by nearly everyone; some dishes and windows broken, unstable objects overturned.',
+    'Felt by all; heavy furniture moved, some fallen plaster, slight damage.',
+    'Negligible damage in well-built buildings; considerable damage in poorly built structures.',
+    'Considerable damage in ordinary buildings with partial collapse; chimneys and walls fall.',
+    'Considerable damage even in well-designed structures; buildings shifted off foundations.',
+    'Most masonry and frame structures destroyed with their foundations; rails bent.',
+    'Few, if any, masonry structures remain standing; bridges destroyed.',
+    'Damage total; lines of sight and level distorted, objects thrown into the air.',
+]
+
+export const romanMmi = (mmi: number) => ROMAN[Math.max(1, Math.min(12, Math.floor(mmi))) - 1]
+export const describeMmi = (mmi: number) => MMI_DESCRIPTIONS[Math.max(1, Math.min(12, Math.floor(mmi))) - 1]
+
+/** Richter magnitude from seismic energy: M = 0.67 log10(E_s) − 5.87 (Collins et al. 2005) */
+export function impactMagnitude(groundEnergyMt: number, efficiency = DEFAULT_SEISMIC_EFFICIENCY) {
+    const Es = Math.max(0, groundEnergyMt) * J_PER_MT * efficiency
+    return Es > 0 ? 0.67 * Math.log10(Es) - 5.87 : -Infinity
+}
+
+/**
+ * Magnitude felt at a distance, from the attenuation fits in Collins et al. 2005.
+ * The far-field (≥ 700 km) term is matched to the regional one at 700 km.
+ */
+export function effectiveMagnitude(magnitude: number, distanceKm: number) {
+    const r = Math.max(0, distanceKm)
+    if (r < 60) return magnitude - 0.0238 * r
+    if (r < 700) return magnitude - 0.0048 * r - 1.1644
+    const farOffset = 0.0048 * 700 + 1.1644 - 1.66 * Math.log10(700 / KM_PER_DEG)
+    return magnitude - 1.66 * Math.log10(r / KM_PER_DEG) - farOffset
+}
+
+/** Modified Mercalli intensity (1–12, fractional) from an effective magnitude — fit to Collins et al. Table 4 */
+export function mmiFromMagnitude(effMagnitude: number) {
+    if (!Number.isFinite(effMagnitude)) return 1
+    return Math.max(1, Math.min(12, 1.5 * effMagnitude - 0.5))
+}
+
+export function mmiAtDistance(a: SeismicAssessment, distanceKm: number) {
+    return mmiFromMagnitude(effectiveMagnitude(a.magnitude, distanceKm))
+}
+
+/** Impact-equivalent earthquake plus MMI contour rings */
+export function assessSeismic(params: { groundEnergyMt: number; efficiency?: number }): SeismicAssessment {
+    const efficiency = params.efficiency ?? DEFAULT_SEISMIC_EFFICIENCY
+    const magnitude = impactMagnitude(params.groundEnergyMt, efficiency)
+    const seismicEnergyJ = Math.max(0, params.groundEnergyMt) * J_PER_MT * efficiency
+
+    const mmiAt = (r: number) => mmiFromMagnitude(effectiveMagnitude(magnitude, r))
+    const radiusForMmi = (level: number) => {
+        if (mmiAt(0) < level) return 0
+        let lo = 0
+        let hi = Math.PI * 6371
+        for (let i = 0; i < 60; i++) {
+            const mid = (lo + hi) / 2
+            if (mmiAt(mid) >= level) lo = mid
+            else hi = mid
+        }
+        return lo
+    }
+
+    const rings = CONTOUR_LEVELS.map(mmi => ({
+        mmi,
+        roman: romanMmi(mmi),
+        radiusKm: radiusForMmi(mmi),
+        description: describeMmi(mmi),
+    }))
+
+    return { magnitude, seismicEnergyJ, efficiency, rings }
+}
+
+/** Radius (km) of the outermost non-empty MMI contour */
+export function outerSeismicRadiusKm(a: SeismicAssessment) {
+    return a.rings.reduce((m, r) => Math.max(m, r.radiusKm), 0)
+}
@@ -0,0 +1,46 @@
+// src/lib/target.ts
+export type TargetMaterial = 'water' | 'sediment' | 'crystalline' | 'ice'
+export type TargetMaterialMode = 'auto' | 'manual'
+
+export type TargetProperties = {
+    material: TargetMaterial
+    label: string
+    densityKgM3: number
+    seismicEfficiency: number   // fraction of ground energy radiated as seismic waves
+}
+
+/** Mean ocean depth, used when a water target has no measured depth */
+export const DEFAULT_OCEAN_DEPTH_M = 3700
+
+/**
+ * Bulk properties of each target surface (Collins et al. 2005 and Schultz & Gault for coupling).
+ * Porous and layered targets absorb more of the shock, so they radiate less seismic energy.
+ */
+export const TARGET_MATERIALS: Record<TargetMaterial, TargetProperties> = {
+    water: { material: 'water', label: 'Water', densityKgM3: 1000, seismicEfficiency: 1e-5 },
+    sediment: { material: 'sediment', label: 'Sedimentary rock', densityKgM3: 2500, seismicEfficiency: 5e-5 },
+    crystalline: { material: 'crystalline', label: 'Crystalline rock', densityKgM3: 2750, seismicEfficiency: 1e-4 },
+    ice: { material: 'ice', label: 'Ice sheet', densityKgM3: 930, seismicEfficiency: 3e-5 },
+}
+
+export const targetProperties = (m: TargetMaterial) => TARGET_MATERIALS[m]
+
+/**
+ * Best guess of the surface from site elevation.
+ * - Below sea level → water
+ * - Polar (|lat| ≥ 60°) and high → ice sheet
+ * - Lowlands → sediment, uplands → crystalline basement
+ */
+export function inferTargetMaterial(elevationM: number | null, lat: number): TargetMaterial {
+    if (elevationM == null) return 'sediment'
+    if (elevationM < 0) return 'water'
+    if (Math.abs(lat) >= 60 && elevationM >= 1000) return 'ice'
+    if (elevationM < 500) return 'sediment'
+    return 'crystalline'
+}
+
+/** Water depth (m) at the site for a water target, 0 for land */
+export function waterDepthM(material: TargetMaterial, elevationM: number | null) {
+    if (material !== 'water') return 0
+    return elevationM != null && elevationM < 0 ? -elevationM : DEFAULT_OCEAN_DEPTH_M
+}
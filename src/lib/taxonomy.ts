@@ -0,0 +1,39 @@
+// src/lib/taxonomy.ts
+export type TaxonomicClass = 'C' | 'S' | 'Q' | 'V' | 'E' | 'M' | 'X'
+
+export type TaxonomyProperties = {
+    cls: TaxonomicClass
+    label: string
+    albedo: number          // geometric albedo p_v
+    densityKgM3: number     // typical bulk density, porosity included
+}
+
+/**
+ * Typical albedos (Thomas et al. 2011, NEOWISE) and bulk densities (Carry 2012) per class.
+ * X is the unknown-type fallback: the median near-Earth albedo.
+ */
+export const TAXONOMY: Record<TaxonomicClass, TaxonomyProperties> = {
+    C: { cls: 'C', label: 'C-type (carbonaceous)', albedo: 0.06, densityKgM3: 1500 },
+    S: { cls: 'S', label: 'S-type (stony)', albedo: 0.25, densityKgM3: 2700 },
+    Q: { cls: 'Q', label: 'Q-type (fresh ordinary chondrite)', albedo: 0.29, densityKgM3: 3000 },
+    V: { cls: 'V', label: 'V-type (basaltic)', albedo: 0.35, densityKgM3: 3000 },
+    E: { cls: 'E', label: 'E-type (enstatite)', albedo: 0.5, densityKgM3: 2700 },
+    M: { cls: 'M', label: 'M-type (metallic)', albedo: 0.14, densityKgM3: 5000 },
+    X: { cls: 'X', label: 'Unknown (median NEO)', albedo: 0.14, densityKgM3: 2000 },
+}
+
+/** Bulk density to suggest for an arbitrary albedo: the class with the nearest albedo */
+export function densityForAlbedo(albedo: number) {
+    const classes = Object.values(TAXONOMY).filter(t => t.cls !== 'X')
+    let best = classes[0]
+    for (const t of classes) {
+        if (Math.abs(Math.log(t.albedo / albedo)) < Math.abs(Math.log(best.albedo / albedo))) best = t
+    }
+    return best.densityKgM3
+}
+
+/** Diameter (m) from absolute magnitude H and albedo: D = 1329 / √p · 10^(−H/5) km */
+export function diameterFromMagnitude(absoluteMagnitude: number, albedo: number) {
+    const p = Math.max(0.01, Math.min(1, albedo))
+    return 1329 / Math.sqrt(p) * Math.pow(10, -absoluteMagnitude / 5) * 1000
+}
@@ -0,0 +1,94 @@
+// src/lib/thermal.ts
+export type ThermalEffect = 'clothing' | 'burn3' | 'vegetation' | 'burn2' | 'burn1'
+
+export type ThermalRing = {
+    effect: ThermalEffect
+    label: string
+    radiusKm: number          // 0 when the threshold is never reached
+    thresholdMJm2: number     // fluence needed at this energy
+}
+
+export type ThermalAssessment = {
+    fireballRadiusKm: number
+    fireballDurationS: number
+    rings: ThermalRing[]      // ordered from innermost to outermost
+}
+
+/** Ring colours, from white-hot (clothing ignites) to pale yellow (1st-degree burns) */
+export const THERMAL_COLORS: Record<ThermalEffect, string> = {
+    clothing: '#fff3e0',
+    burn3: '#ff3d00',
+    vegetation: '#ff9100',
+    burn2: '#ffc400',
+    burn1: '#ffee58',
+}
+
+const EARTH_RADIUS_KM = 6371
+const LUMINOUS_EFFICIENCY = 3e-3
+const J_PER_MT = 4.184e15
+
+/**
+ * Fluence thresholds (MJ/m²) for a 1 Mt explosion (Glasstone & Dolan, via Collins et al. 2005).
+ * Longer pulses from bigger explosions need more energy, so thresholds scale as E^(1/6).
+ */
+const THRESHOLDS_1MT: Array<{ effect: ThermalEffect; label: string; mj: number }> = [
+    { effect: 'clothing', label: 'Clothing ignites', mj: 1.0 },
+    { effect: 'burn3', label: '3rd-degree burns', mj: 0.42 },
+    { effect: 'vegetation', label: 'Dry grass & vegetation ignite', mj: 0.38 },
+    { effect: 'burn2', label: '2nd-degree burns', mj: 0.25 },
+    { effect: 'burn1', label: '1st-degree burns', mj: 0.13 },
+]
+
+/**
+ * Fireball thermal radiation model (Collins et al. 2005).
+ * - Fireball radius R_f = 0.002 E^(1/3) m (E in J), lasting T = R_f / v
+ * - Fluence at range Δ: Φ = f η E / (2π Δ²), with f the fraction of the fireball above the horizon
+ * - Ring radius = range where Φ drops to the (energy-scaled) threshold
+ */
+export function assessThermal(params: { energyMt: number; speedKms: number }): ThermalAssessment {
+    const energyMt = Math.max(0, params.energyMt)
+    const E = energyMt * J_PER_MT
+    const fireballRadiusM = 0.002 * Math.cbrt(E)
+    const fireballRadiusKm = fireballRadiusM / 1000
+    const fireballDurationS = fireballRadiusM / (Math.max(0.1, params.speedKms) * 1000)
+
+    // Fluence (J/m²) at a surface range in km
+    const fluence = (rangeKm: number) => {
+        const h = (1 - Math.cos(rangeKm / EARTH_RADIUS_KM)) * EARTH_RADIUS_KM
+        if (h >= fireballRadiusKm) return 0
+        const delta = Math.acos(h / fireballRadiusKm)
+        const visible = (2 / Math.PI) * (delta - (h / fireballRadiusKm) * Math.sin(delta))
+        const rM = rangeKm * 1000
+        return visible * LUMINOUS_EFFICIENCY * E / (2 * Math.PI * rM * rM)
+    }
+
+    const rangeForFluence = (targetJm2: number) => {
+        let lo = 0.001
+        let hi = Math.PI * EARTH_RADIUS_KM
+        if (fluence(lo) < targetJm2) return 0
+        for (let i = 0; i < 60; i++) {
+            const mid = Math.sqrt(lo * hi)
+            if (fluence(mid) >= targetJm2) lo = mid
+            else hi = mid
+        }
+        return lo
+    }
+
+    const scale = energyMt > 0 ? Math.pow(energyMt, 1 / 6) : 1
+    const rings = THRESHOLDS_1MT.map(t => {
+        const thresholdMJm2 = t.mj * scale
+        return {
+            effect: t.effect,
+            label: t.label,
+            radiusKm: energyMt > 0 ? rangeForFluence(thresholdMJm2 * 1e6) : 0,
+            thresholdMJm2
+        }
+    })
+
+    return { fireballRadiusKm, fireballDurationS, rings }
+}
+
+/** Radius (km) of one thermal effect, 0 if not present */
+export function thermalRadiusKm(a: ThermalAssessment, effect: ThermalEffect) {
+    return a.rings.find(r => r.effect === effect)?.radiusKm ?? 0
+}
@@ -1,133 +1,100 @@
 // src/lib/tsunami.ts
-export type TsunamiAssessment = {
-    elevation: number | null
-    terrain: 'Ocean/Sea' | 'Coastal/Low-lying' | 'Plains/Valley' | 'Hills/Plateau' | 'Mountains' | 'Unknown'
-    risk: 'EXTREME' | 'HIGH' | 'MODERATE' | 'LOW' | 'NEGLIGIBLE' | 'Unable to determine'
-    waveDeepM: number | null
-    waveCoastM: number | null
-    notes: string[]
+export type TsunamiRisk = 'EXTREME' | 'HIGH' | 'MODERATE' | 'LOW' | 'NEGLIGIBLE' | 'Unable to determine'
+
+export type TsunamiRing = {
+    waveHeightM: number      // crest-to-trough height at this range
+    radiusKm: number         // 0 when the wave never reaches this height
+    arrivalMin: number       // travel time from the impact
+}
+
+export type TsunamiPropagation = {
+    cavityDiameterKm: number // transient cavity in the water, 0 for land targets
+    rimWaveHeightM: number
+    waterDepthM: number
+    waveSpeedKms: number     // shallow-water speed √(g h)
+    rings: TsunamiRing[]     // ordered from innermost (highest) to outermost
+}
+
+const GRAVITY = 9.81
+const EARTH_RADIUS_KM = 6371
+const WAVE_HEIGHTS_M = [50, 10, 3, 1]
+
+// Distance to the coast a risk label is judged at, when no coastline is known
+export const TSUNAMI_REFERENCE_COAST_KM = 100
+
+export const TSUNAMI_RISK_LABELS: Record<TsunamiRisk, string> = {
+    EXTREME: 'Mega-tsunami expected',
+    HIGH: 'Major tsunami likely',
+    MODERATE: 'Local tsunami possible',
+    LOW: 'Minor coastal waves',
+    NEGLIGIBLE: 'No significant tsunami',
+    'Unable to determine': 'Site data unavailable',
 }
 
 /**
- * Very simplified terrain-aware tsunami estimate.
- * - Ocean impact: estimate deep-water wave amplitude from impact energy + depth,
- *   then apply a crude shoaling factor to approximate near-coast height.
- * - Coastal/low-lying land: local surge/flooding driven by displacement & shallow water.
- * - Inland: negligible tsunami risk.
- *
- * All numbers are back-of-envelope and intentionally conservative/simple for a game.
+ * Impact wave propagation (Ward & Asphaug 2000; Collins et al. 2005).
+ * - Rim wave forms at r_rw = 3/4 D_tc with height A_rw = D_tc / 14.1, capped by the water depth
+ * - Height then decays as 1/r: A(r) = A_rw r_rw / r
+ * - The wave travels at the shallow-water speed √(g h) for the site depth h
  */
-export async function assessTsunami(
-    lat: number,
-    lon: number,
-    energyTNT: number,  // megatons TNT
-    craterKm: number
-): Promise<TsunamiAssessment> {
-    let elevation: number | null = null
-    try {
-        const r = await fetch(`https://api.open-elevation.com/api/v1/lookup?locations=${lat},${lon}`)
-        const data = await r.json()
-        elevation = (data?.results?.[0]?.elevation ?? null)
-    } catch {
-        elevation = null
-    }
+export function assessTsunamiPropagation(params: { waterCavityDiameterKm: number; waterDepthM: number }): TsunamiPropagation {
+    const cavityDiameterKm = Math.max(0, params.waterCavityDiameterKm)
+    const waterDepthM = Math.max(0, params.waterDepthM)
+    const waveSpeedKms = Math.sqrt(GRAVITY * waterDepthM) / 1000
+    const rimWaveHeightM = Math.min(cavityDiameterKm * 1000 / 14.1, waterDepthM)
+    const rimRadiusKm = 0.75 * cavityDiameterKm
+
+    const rings = WAVE_HEIGHTS_M.map(waveHeightM => {
+        const r = rimWaveHeightM >= waveHeightM ? rimRadiusKm * rimWaveHeightM / waveHeightM : 0
+        const radiusKm = Math.min(r, Math.PI * EARTH_RADIUS_KM)
+        return { waveHeightM, radiusKm, arrivalMin: waveSpeedKms > 0 ? radiusKm / waveSpeedKms / 60 : 0 }
+    })
 
-    // Terrain classification (matches your ImpactMap buckets)
-    const terrain: TsunamiAssessment['terrain'] =
-        elevation == null ? 'Unknown'
-            : elevation < 0 ? 'Ocean/Sea'
-                : elevation < 10 ? 'Coastal/Low-lying'
-                    : elevation < 100 ? 'Plains/Valley'
-                        : elevation < 500 ? 'Hills/Plateau'
-                            : 'Mountains'
-
-    // Bail out if we can't determine elevation
-    if (elevation == null) {
-        return {
-            elevation,
-            terrain,
-            risk: 'Unable to determine',
-            waveDeepM: null,
-            waveCoastM: null,
-            notes: ['Elevation service unavailable']
-        }
-    }
+    return { cavityDiameterKm, rimWaveHeightM, waterDepthM, waveSpeedKms, rings }
+}
 
-    const notes: string[] = []
-    let waveDeepM: number | null = null
-    let waveCoastM: number | null = null
-
-    // Helpers
-    const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v))
-    const cbrtE = Math.cbrt(Math.max(energyTNT, 0)) // energy scaling knob
-
-    if (terrain === 'Ocean/Sea') {
-        // Ocean impact → use water depth (positive meters)
-        const depth = Math.abs(elevation) // elevation is negative under sea level
-        const depthCap = clamp(depth, 200, 6000) // ignore ultra-shallow / ultra-deep extremes
-
-        // Deep-water wave amplitude (very rough): scale with E^(1/3) and sqrt(depth)
-        // Tuned for gameplay, not research accuracy.
-        waveDeepM = 0.6 * cbrtE * Math.sqrt(depthCap / 4000)
-
-        // Shoaling from deep (~4000m) to continental shelf (~50m)
-        // Green's law style: A ∝ h^(-1/4) => multiply by (h_deep / h_coast)^(1/4)
-        const hDeep = 4000
-        const hCoast = 50
-        const shoal = Math.pow(hDeep / hCoast, 0.25)
-        waveCoastM = waveDeepM * shoal
-
-        // Cap to keep things in sane interactive ranges
-        waveCoastM = clamp(waveCoastM, 1, 120)
-        notes.push(`Ocean impact (depth ≈ ${depth.toFixed(0)} m)`)
-    } else if (terrain === 'Coastal/Low-lying') {
-        // Land impact right at the coast → surge-like flooding from displacement
-        // Use a gentler scaling vs ocean case.
-        waveDeepM = 0
-        waveCoastM = clamp(0.35 * cbrtE + 0.1 * craterKm, 0.5, 30)
-        notes.push('Coastal land impact: surge & local inundation likely')
-    } else {
-        // Inland: tsunami negligible (rivers/lakes may slosh but not oceanic tsunami)
-        waveDeepM = 0
-        waveCoastM = 0
-    }
+/** Wave height (m) and arrival time (min) at a distance from the impact */
+export function tsunamiAtDistance(a: TsunamiPropagation, distanceKm: number) {
+    const rimRadiusKm = 0.75 * a.cavityDiameterKm
+    const r = Math.max(rimRadiusKm, distanceKm)
+    const waveHeightM = r > 0 ? a.rimWaveHeightM * rimRadiusKm / r : 0
+    return { waveHeightM, arrivalMin: a.waveSpeedKms > 0 ? distanceKm / a.waveSpeedKms / 60 : 0 }
+}
 
-    // Risk label from coastal height estimate
-    const risk: TsunamiAssessment['risk'] =
-        waveCoastM == null ? 'Unable to determine'
-            : waveCoastM > 50 ? 'EXTREME'
-                : waveCoastM > 15 ? 'HIGH'
-                    : waveCoastM > 5 ? 'MODERATE'
-                        : waveCoastM > 1 ? 'LOW'
-                            : 'NEGLIGIBLE'
+/** Radius (km) of the outermost non-empty wave contour */
+export function outerTsunamiRadiusKm(a: TsunamiPropagation) {
+    return a.rings.reduce((m, r) => Math.max(m, r.radiusKm), 0)
+}
 
-    return { elevation, terrain, risk, waveDeepM, waveCoastM, notes }
+/**
+ * Risk label from the wave reaching a coast TSUNAMI_REFERENCE_COAST_KM away:
+ * above 50 m extreme, 15 m high, 5 m moderate, 1 m low
+ */
+export function tsunamiRiskLevel(a: TsunamiPropagation): TsunamiRisk {
+    const h = tsunamiAtDistance(a, TSUNAMI_REFERENCE_COAST_KM).waveHeightM
+    return h > 50 ? 'EXTREME' : h > 15 ? 'HIGH' : h > 5 ? 'MODERATE' : h > 1 ? 'LOW' : 'NEGLIGIBLE'
 }
 
-/** Build a dynamic multiple-choice question WITH explanations */
-export function buildTsunamiQuestion(a: TsunamiAssessment) {
-    // If we can't compute a coastal height OR it's < 1 m, use a risk-only question
-    if (a.waveCoastM == null || a.waveCoastM < 1) {
-        const levels = ['NEGLIGIBLE', 'LOW', 'MODERATE', 'HIGH', 'EXTREME'] as const
-        const answerIdx = a.risk === 'Unable to determine'
-            ? 0 // we'll insert "Unable to determine" first below
-            : Math.max(0, levels.indexOf(a.risk as any))
+/** Build a dynamic multiple-choice question WITH explanations, from the sim's wave model */
+export function buildTsunamiQuestion(a: TsunamiPropagation) {
+    const risk = tsunamiRiskLevel(a)
+    const coastKm = TSUNAMI_REFERENCE_COAST_KM
+    const waveCoastM = tsunamiAtDistance(a, coastKm).waveHeightM
 
-        const choices = a.risk === 'Unable to determine'
-            ? ['Unable to determine', 'LOW', 'MODERATE', 'HIGH']
-            : [...levels]
+    // Below 1 m at the coast, use a risk-only question
+    if (waveCoastM < 1) {
+        const choices = ['NEGLIGIBLE', 'LOW', 'MODERATE', 'HIGH', 'EXTREME']
+        const answerIdx = Math.max(0, choices.indexOf(risk))
 
         const explanations = choices.map((c) => {
-            if (c === 'Unable to determine') {
-                return 'Elevation/terrain data was unavailable, so a terrain-aware tsunami estimate could not be made.'
-            }
-            return c === a.risk
-                ? `Terrain classification is "${a.terrain}" with the current impact energy, which yields a ${a.risk.toLowerCase()} tsunami risk at the coast.`
-                : `This risk level does not match the computed terrain-aware estimate for the current impact location.`
+            if (c !== risk) return `This risk level does not match the wave height computed for a coast ${coastKm} km away.`
+            return a.cavityDiameterKm > 0
+                ? `The ${a.rimWaveHeightM.toFixed(0)} m rim wave decays below 1 m by ${coastKm} km, so the tsunami risk is ${risk.toLowerCase()}.`
+                : 'The impact is on land: it opens no cavity in the ocean and raises no tsunami.'
         })
 
         return {
-            q: 'Based on this impact location and terrain, what is the tsunami risk?',
+            q: 'Based on this impact, what is the tsunami risk at the nearest coast?',
             choices,
             explanations,
             answer: answerIdx
@@ -136,7 +103,7 @@ export function buildTsunamiQuestion(a: TsunamiAssessment) {
 
     // Numeric-height question with guaranteed-unique choices
     const clampH = (v: number) => Math.max(1, Math.min(200, Math.round(v)))
-    const target = clampH(a.waveCoastM)
+    const target = clampH(waveCoastM)
 
     // generate three distractors around the target and ensure uniqueness
     const unique = new Set<number>()
@@ -153,16 +120,16 @@ export function buildTsunamiQuestion(a: TsunamiAssessment) {
     const heights = Array.from(unique) // 4 unique ints; includes target
 
     // Build options/explanations with the same risk label for comparability
-    const options = heights.map(h => `${a.risk} risk with ~${h} m coastal waves`)
+    const options = heights.map(h => `${risk} risk with ~${h} m waves ${coastKm} km away`)
     const correctIndexRaw = heights.indexOf(target)
 
     const explanationsRaw = heights.map((h, i) => {
         if (i === correctIndexRaw) {
-            return `Using the current energy and "${a.terrain}" terrain, the deep-water wave is transformed by shoaling near the coast, yielding ~${target} m.`
+            return `The ${a.rimWaveHeightM.toFixed(0)} m rim wave of the ${a.cavityDiameterKm.toFixed(1)} km water cavity decays as 1/r, leaving ~${target} m at ${coastKm} km.`
         }
         const diff = Math.abs(h - target)
-        if (h < target) return `Undershoots the terrain-aware estimate by about ${diff} m — too low for this energy/terrain.`
-        return `Overshoots the terrain-aware estimate by about ${diff} m — too high for this energy/terrain.`
+        if (h < target) return `Undershoots the wave model by about ${diff} m — too low for this cavity.`
+        return `Overshoots the wave model by about ${diff} m — too high for this cavity.`
     })
 
     // Shuffle once so the correct answer isn't always in the same position
@@ -172,7 +139,7 @@ export function buildTsunamiQuestion(a: TsunamiAssessment) {
     const answer = order.indexOf(correctIndexRaw)
 
     return {
-        q: 'Given this impact location and terrain, what is the best estimate for coastal tsunami height?',
+        q: `Given this impact, what is the best estimate for the tsunami height ${coastKm} km away?`,
         choices,
         explanations,
         answer
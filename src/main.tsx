@@ -3,6 +3,10 @@ import ReactDOM from 'react-dom/client'
 import App from './App'
 import './styles.css'
 import 'leaflet/dist/leaflet.css'
+import { DEFAULT_PROVIDER_MODE, configureProviders, createProviders, providerModeFromQuery } from './providers/registry'
+
+// Data sources: ?data=live, ?data=cached (default) or ?data=fixture for the JSON in public/fixtures
+configureProviders(createProviders(providerModeFromQuery(window.location.search) ?? DEFAULT_PROVIDER_MODE))
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
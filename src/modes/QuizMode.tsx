@@ -1,8 +1,8 @@
 // src/modes/QuizMode.tsx
 import { useEffect, useState } from 'react'
 import { useSimStore } from '../state/useSimStore'
-import { assessTsunami, buildTsunamiQuestion } from '../lib/tsunami'
-import { assessPopulationDensity, estimateCasualties, buildCasualtyQuestion } from '../lib/casualty'
+import { buildTsunamiQuestion } from '../lib/tsunami'
+import { estimateRingCasualties, buildCasualtyQuestion } from '../lib/casualty'
 import { buildThermalQuestion, buildSeismicQuestion, buildEnergyClassQuestion } from '../lib/dynamics'
 
 type Q = { q: string; choices: string[]; explanations: string[]; answer: number }
@@ -29,11 +29,14 @@ export default function QuizMode() {
     const resumeFromQuiz = useSimStore(s => s.resumeFromQuiz)
 
     // snapshot values at mount so the quiz doesn't reshuffle if state changes
-    const { impactLat, impactLon, energyTNT, craterKm } = useSimStore(s => ({
+    const { impactLat, impactLon, energyTNT, groundEnergyMt, thermal, seismic, effects } = useSimStore(s => ({
         impactLat: s.impactLat,
         impactLon: s.impactLon,
         energyTNT: s.readouts.energyTNT,
-        craterKm: s.readouts.craterKm
+        groundEnergyMt: s.readouts.groundEnergyMt,
+        thermal: s.thermal,
+        seismic: s.seismic,
+        effects: s.effects
     }))
 
     const [questions, setQuestions] = useState<Q[] | null>(null)
@@ -46,25 +49,15 @@ export default function QuizMode() {
             ; (async () => {
                 try {
                     // 1) Terrain/tsunami
-                    const tsu = await assessTsunami(impactLat, impactLon, energyTNT, craterKm)
-                    const qTsu = buildTsunamiQuestion(tsu)
+                    const qTsu = buildTsunamiQuestion(effects.tsunami)
 
-                    // 2) Density → casualties
-                    const dens = await assessPopulationDensity(impactLat, impactLon, tsu.terrain)
-                    const blastRadiusKm = craterKm * 2.5
-                    const cas = estimateCasualties({
-                        energyTNT,
-                        craterKm,
-                        blastRadiusKm,
-                        densityPkm2: dens.densityPkm2,
-                        tsunamiRisk: tsu.risk
-                    })
-                    cas.density = dens
+                    // 2) People in the hazard rings → casualties
+                    const cas = await estimateRingCasualties({ lat: impactLat, lon: impactLon, effects })
                     const qCas = buildCasualtyQuestion(cas)
 
                     // 3) Pure local dynamics (no network)
-                    const qThermal = buildThermalQuestion(energyTNT)
-                    const qSeismic = buildSeismicQuestion(energyTNT)
+                    const qThermal = buildThermalQuestion(thermal, energyTNT)
+                    const qSeismic = buildSeismicQuestion(seismic, groundEnergyMt)
                     const qEnergy = buildEnergyClassQuestion(energyTNT)
 
                     const pool: Q[] = [
@@ -1,20 +1,29 @@
 import * as THREE from 'three'
 import { useMemo } from 'react'
+import { Html } from '@react-three/drei'
 import { useSimStore } from '../state/useSimStore'
 import { latLonToVector3 } from '../lib/kinematics'
+import { THERMAL_COLORS } from '../lib/thermal'
+import { BLAST_COLORS } from '../lib/blast'
+import { MMI_COLORS } from '../lib/seismic'
+
+// Ring colour tables are CSS strings; line materials here take hex numbers
+const hex = (css: string) => new THREE.Color(css).getHex()
 
 function CircleOverlay({
   lat,
   lon,
   radiusKm,
   color,
-  altitude = 1.002
+  altitude = 1.002,
+  label
 }: {
   lat: number
   lon: number
   radiusKm: number
   color: number
   altitude?: number
+  label?: string
 }) {
   const segments = 256
   const size = useSimStore(s => s.size)
@@ -79,36 +88,74 @@ function CircleOverlay({
         />
       </bufferGeometry>
       <lineBasicMaterial color={color} linewidth={1.5} />
+      {label && (
+        <Html position={pts[0]} center style={{ pointerEvents: 'none' }}>
+          <div className="ring-label" style={{ color: `#${color.toString(16).padStart(6, '0')}` }}>{label}</div>
+        </Html>
+      )}
     </line>
   )
 }
 
 export default function ImpactOverlays() {
-  const { targetLat, targetLon, blastKm, seismicKm, tsunamiKm } = useSimStore(s => ({
+  const { targetLat, targetLon, blast, seismic, tsunami, thermal } = useSimStore(s => ({
     targetLat: s.targetLat ?? 40,
     targetLon: s.targetLon ?? -100,
-    blastKm: s.blastKm ?? 0,
-    seismicKm: s.seismicKm ?? 0,
-    tsunamiKm: s.tsunamiKm ?? 0
+    blast: s.blast,
+    seismic: s.seismic,
+    tsunami: s.tsunami,
+    thermal: s.thermal
   }))
   
   // Don't render if coordinates are invalid
-  if (!isFinite(targetLat) || !isFinite(targetLon) || !isFinite(blastKm) || !isFinite(seismicKm) || !isFinite(tsunamiKm)) {
+  if (!isFinite(targetLat) || !isFinite(targetLon)) {
     return null
   }
   
-  // Debug: Log when coordinates or sizes change
-  console.log(`ImpactOverlays - target: ${targetLat.toFixed(2)}°N, ${targetLon.toFixed(2)}°E`)
-  console.log(`ImpactOverlays - blast: ${blastKm.toFixed(0)}km, seismic: ${seismicKm.toFixed(0)}km, tsunami: ${tsunamiKm.toFixed(0)}km`)
+  const blastKey = blast.rings.map(r => r.radiusKm.toFixed(0)).join('-')
+  const seismicKey = seismic.rings.map(r => r.radiusKm.toFixed(0)).join('-')
+  const tsunamiKey = tsunami.rings.map(r => r.radiusKm.toFixed(0)).join('-')
   
   // Create a unique key based on target coordinates AND radius sizes to force re-render
-  const targetKey = `${targetLat.toFixed(3)}_${targetLon.toFixed(3)}_${blastKm.toFixed(0)}_${seismicKm.toFixed(0)}_${tsunamiKm.toFixed(0)}`
+  const targetKey = `${targetLat.toFixed(3)}_${targetLon.toFixed(3)}_${blastKey}_${seismicKey}_${tsunamiKey}`
   
   return (
     <group key={targetKey}>
-      <CircleOverlay lat={targetLat} lon={targetLon} radiusKm={blastKm} color={0xffb86c} />
-      <CircleOverlay lat={targetLat} lon={targetLon} radiusKm={seismicKm} color={0xf8f8f2} altitude={1.003} />
-      <CircleOverlay lat={targetLat} lon={targetLon} radiusKm={tsunamiKm} color={0x66e0ff} altitude={1.004} />
+      {blast.rings.filter(r => r.radiusKm > 0).map(r => (
+        <CircleOverlay
+          key={r.psi}
+          lat={targetLat}
+          lon={targetLon}
+          radiusKm={r.radiusKm}
+          color={hex(BLAST_COLORS[r.psi] ?? BLAST_COLORS[1])}
+          label={`${r.psi} psi · ${r.label}`}
+        />
+      ))}
+      {seismic.rings.filter(r => r.radiusKm > 0).map(r => (
+        <CircleOverlay
+          key={r.mmi}
+          lat={targetLat}
+          lon={targetLon}
+          radiusKm={r.radiusKm}
+          color={hex(MMI_COLORS[r.mmi] ?? MMI_COLORS[8])}
+          altitude={1.003}
+          label={`MMI ${r.roman}`}
+        />
+      ))}
+      {tsunami.rings.filter(r => r.radiusKm > 0).map(r => (
+        <CircleOverlay
+          key={r.waveHeightM}
+          lat={targetLat}
+          lon={targetLon}
+          radiusKm={r.radiusKm}
+          color={0x66e0ff}
+          altitude={1.004}
+          label={`${r.waveHeightM} m wave · ${r.arrivalMin.toFixed(0)} min`}
+        />
+      ))}
+      {thermal.rings.filter(r => r.radiusKm > 0).map(r => (
+        <CircleOverlay key={r.effect} lat={targetLat} lon={targetLon} radiusKm={r.radiusKm} color={hex(THERMAL_COLORS[r.effect])} altitude={1.0025} />
+      ))}
     </group>
   )
 }
\ No newline at end of file
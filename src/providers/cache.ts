@@ -0,0 +1,90 @@
+// src/providers/cache.ts
+import type { ElevationProvider } from '../lib/elevation'
+import type { NeoProvider } from './nasa'
+import type { PlaceProvider } from './overpass'
+
+const STORAGE_PREFIX = 'impact-sim:'
+const NEO_MAX_AGE_MS = 12 * 60 * 60 * 1000   // NeoWs data changes slowly; the DEMO_KEY rate limit does not
+
+type Entry = { value: unknown; at: number }
+
+/**
+ * Remembers the result of `load` per key.
+ * - Concurrent callers with the same key share one request
+ * - Failures are not cached, so the next call tries again
+ * - With `persist`, results also go to localStorage and survive a reload
+ */
+function cached<A extends unknown[], R>(
+    keyOf: (...args: A) => string,
+    load: (...args: A) => Promise<R>,
+    opts: { persist?: string; maxAgeMs?: number } = {}
+) {
+    const memory = new Map<string, Promise<R>>()
+    const maxAgeMs = opts.maxAgeMs ?? Infinity
+
+    const readStored = (key: string): R | undefined => {
+        if (!opts.persist) return undefined
+        try {
+            const raw = localStorage.getItem(STORAGE_PREFIX + opts.persist + ':' + key)
+            const entry = raw ? JSON.parse(raw) as Entry : null
+            return entry && Date.now() - entry.at < maxAgeMs ? entry.value as R : undefined
+        } catch {
+            return undefined
+        }
+    }
+    const writeStored = (key: string, value: R) => {
+        if (!opts.persist) return
+        try {
+            localStorage.setItem(STORAGE_PREFIX + opts.persist + ':' + key, JSON.stringify({ value, at: Date.now() }))
+        } catch {
+            // storage full or unavailable: the in-memory copy still works
+        }
+    }
+
+    return (...args: A): Promise<R> => {
+        const key = keyOf(...args)
+        const hit = memory.get(key)
+        if (hit) return hit
+        const stored = readStored(key)
+        const p = stored !== undefined ? Promise.resolve(stored) : load(...args).then(v => {
+            writeStored(key, v)
+            return v
+        })
+        memory.set(key, p)
+        p.catch(() => memory.delete(key))
+        return p
+    }
+}
+
+// ~11 m at the equator: close enough to count as the same site
+const at = (lat: number, lon: number) => `${lat.toFixed(4)},${lon.toFixed(4)}`
+
+export function cachedNeoProvider(inner: NeoProvider): NeoProvider {
+    return {
+        feed: cached((start: string, end: string) => `${start}..${end}`, inner.feed, { persist: 'neo-feed', maxAgeMs: NEO_MAX_AGE_MS }),
+        neo: cached((id: string) => id, inner.neo, { persist: 'neo', maxAgeMs: NEO_MAX_AGE_MS }),
+        // Browse pages are large and only used while searching: keep them in memory
+        browse: cached((page: number, size: number) => `${page}:${size}`, inner.browse, { maxAgeMs: NEO_MAX_AGE_MS }),
+    }
+}
+
+export function cachedElevationProvider(inner: ElevationProvider): ElevationProvider {
+    return {
+        name: inner.name,
+        elevationAt: cached(at, inner.elevationAt),
+        gridAround: cached(
+            (lat: number, lon: number, halfSizeKm: number, n: number) => `${at(lat, lon)}:${halfSizeKm.toFixed(1)}:${n}`,
+            inner.gridAround
+        ),
+    }
+}
+
+export function cachedPlaceProvider(inner: PlaceProvider): PlaceProvider {
+    return {
+        placesAround: cached(
+            (lat: number, lon: number, radiusKm: number) => `${at(lat, lon)}:${radiusKm}`,
+            inner.placesAround,
+            { persist: 'places' }
+        ),
+    }
+}
@@ -0,0 +1,40 @@
+// src/providers/nasa.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { fixtureFetch } from '../test/fixtureFetch'
+import { fixtureNeoProvider } from './nasa'
+import { DEFAULT_PROVIDER_MODE, FIXTURE_BASE_URL, getProviders } from './registry'
+
+const neos = fixtureNeoProvider(FIXTURE_BASE_URL)
+
+beforeEach(() => { vi.stubGlobal('fetch', vi.fn(fixtureFetch)) })
+afterEach(() => { vi.unstubAllGlobals() })
+
+describe('fixtureNeoProvider', () => {
+    it('returns only the recorded dates inside the requested range', async () => {
+        const feed = await neos.feed('2036-03-21', '2036-03-27')
+        expect(Object.keys(feed.near_earth_objects)).toEqual(['2036-03-27'])
+        expect(feed.element_count).toBe(1)
+        expect(feed.near_earth_objects['2036-03-27'][0].name).toBe('99942 Apophis (2004 MN4)')
+    })
+
+    it('returns an empty feed for a range with nothing recorded', async () => {
+        const feed = await neos.feed('2036-03-28', '2036-04-03')
+        expect(feed).toEqual({ element_count: 0, near_earth_objects: {} })
+    })
+
+    it('looks recorded objects up by NASA id and rejects unknown ids', async () => {
+        expect((await neos.neo('2101955')).designation).toBe('101955')
+        await expect(neos.neo('3542519')).rejects.toThrow(/404/)
+    })
+
+    it('serves the recorded browse page first and empty pages after it', async () => {
+        expect((await neos.browse(0, 20)).near_earth_objects).toHaveLength(3)
+        expect((await neos.browse(1, 20)).near_earth_objects).toEqual([])
+    })
+})
+
+describe('registry', () => {
+    it('starts in the same mode the app defaults to', () => {
+        expect(getProviders().mode).toBe(DEFAULT_PROVIDER_MODE)
+    })
+})
@@ -0,0 +1,76 @@
+// src/providers/nasa.ts
+import type { NeoDetail } from '../Fetching/fetchNasa'
+
+const API_KEY = import.meta.env.VITE_NASA_API_KEY ?? 'DEMO_KEY'
+const BASE_URL = 'https://api.nasa.gov/neo/rest/v1'
+
+// One object in the NeoWs feed; the feed omits orbital data and designation
+export type NeoFeedItem = Omit<NeoDetail, 'orbital_data' | 'designation'>
+
+export type NeoFeed = {
+    element_count: number
+    near_earth_objects: Record<string, NeoFeedItem[]>   // keyed by close-approach date
+}
+
+// One page of the whole NEO catalogue, in NASA id order
+export type NeoBrowsePage = {
+    page: { size: number; total_elements: number; total_pages: number; number: number }
+    near_earth_objects: NeoDetail[]
+}
+
+export type NeoProvider = {
+    feed: (startDate: string, endDate: string) => Promise<NeoFeed>
+    neo: (id: string) => Promise<NeoDetail>
+    browse: (page: number, size: number) => Promise<NeoBrowsePage>
+}
+
+/** NASA NeoWs at api.nasa.gov */
+export const liveNeoProvider: NeoProvider = {
+    feed: async (startDate, endDate) => {
+        const r = await fetch(`${BASE_URL}/feed?start_date=${startDate}&end_date=${endDate}&api_key=${API_KEY}`)
+        if (!r.ok) throw new Error(`Failed to fetch asteroid list: ${r.status} ${r.statusText}`)
+        return r.json()
+    },
+    neo: async (id) => {
+        const r = await fetch(`${BASE_URL}/neo/${id}?api_key=${API_KEY}`)
+        if (!r.ok) throw new Error(`Failed to fetch asteroid details: ${r.status} ${r.statusText}`)
+        return r.json()
+    },
+    browse: async (page, size) => {
+        const r = await fetch(`${BASE_URL}/neo/browse?page=${page}&size=${size}&api_key=${API_KEY}`)
+        if (!r.ok) throw new Error(`Failed to browse asteroids: ${r.status} ${r.statusText}`)
+        return r.json()
+    },
+}
+
+/**
+ * Recorded NeoWs responses under `baseUrl`:
+ * - neo/feed.json: one feed keyed by close-approach date; only the dates in the asked range are returned
+ * - neo/<id>.json: one lookup per asteroid
+ * - neo/browse.json: the first browse page; later pages are empty
+ */
+export function fixtureNeoProvider(baseUrl: string): NeoProvider {
+    return {
+        feed: async (startDate, endDate) => {
+            const r = await fetch(`${baseUrl}/neo/feed.json`)
+            if (!r.ok) throw new Error(`Failed to fetch asteroid list: ${r.status} ${r.statusText}`)
+            const recorded = await r.json() as NeoFeed
+            const near_earth_objects = Object.fromEntries(
+                Object.entries(recorded.near_earth_objects).filter(([date]) => date >= startDate && date <= endDate)
+            )
+            const element_count = Object.values(near_earth_objects).reduce((n, items) => n + items.length, 0)
+            return { element_count, near_earth_objects }
+        },
+        neo: async (id) => {
+            const r = await fetch(`${baseUrl}/neo/${id}.json`)
+            if (!r.ok) throw new Error(`Failed to fetch asteroid details: ${r.status} ${r.statusText}`)
+            return r.json()
+        },
+        browse: async (page) => {
+            const r = await fetch(`${baseUrl}/neo/browse.json`)
+            if (!r.ok) throw new Error(`Failed to browse asteroids: ${r.status} ${r.statusText}`)
+            const recorded = await r.json() as NeoBrowsePage
+            return page === 0 ? recorded : { ...recorded, page: { ...recorded.page, number: page }, near_earth_objects: [] }
+        },
+    }
+}
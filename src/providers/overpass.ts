@@ -0,0 +1,71 @@
+// src/providers/overpass.ts
+import { haversineKm } from '../lib/geo'
+
+export type OsmPlace = {
+    place: string          // OSM place tag: city, town, village, ...
+    name?: string
+    lat: number
+    lon: number
+}
+
+export type PlaceProvider = {
+    placesAround: (lat: number, lon: number, radiusKm: number) => Promise<OsmPlace[]>
+}
+
+type OverpassElement = {
+    lat?: number
+    lon?: number
+    center?: { lat: number; lon: number }
+    tags?: Record<string, string>
+}
+
+const PLACE_KINDS = 'city|town|village|hamlet|suburb|neighbourhood'
+
+// Overpass elements → places; ways and relations are located by their centre
+function toPlaces(elements: OverpassElement[]): OsmPlace[] {
+    const places: OsmPlace[] = []
+    for (const el of elements) {
+        const place = el.tags?.place
+        const lat = el.lat ?? el.center?.lat
+        const lon = el.lon ?? el.center?.lon
+        if (!place || lat == null || lon == null) continue
+        places.push({ place, name: el.tags?.name, lat, lon })
+    }
+    return places
+}
+
+/** Populated places from the public Overpass API */
+export const livePlaceProvider: PlaceProvider = {
+    placesAround: async (lat, lon, radiusKm) => {
+        const m = Math.round(radiusKm * 1000)
+        const q = `
+      [out:json][timeout:20];
+      (
+        node(around:${m}, ${lat}, ${lon})["place"~"${PLACE_KINDS}"];
+        way(around:${m}, ${lat}, ${lon})["place"~"${PLACE_KINDS}"];
+        relation(around:${m}, ${lat}, ${lon})["place"~"${PLACE_KINDS}"];
+      );
+      out tags center 20;
+    `.trim()
+        const r = await fetch('https://overpass-api.de/api/interpreter', {
+            method: 'POST',
+            headers: { 'Content-Type': 'text/plain' },
+            body: q
+        })
+        if (!r.ok) throw new Error(`Overpass request failed: ${r.status}`)
+        const data = await r.json()
+        return toPlaces(data?.elements ?? [])
+    },
+}
+
+/** A recorded Overpass response at `<baseUrl>/overpass/places.json`, filtered by distance */
+export function fixturePlaceProvider(baseUrl: string): PlaceProvider {
+    return {
+        placesAround: async (lat, lon, radiusKm) => {
+            const r = await fetch(`${baseUrl}/overpass/places.json`)
+            if (!r.ok) throw new Error(`Place fixture missing (${r.status})`)
+            const data = await r.json()
+            return toPlaces(data?.elements ?? []).filter(p => haversineKm(lat, lon, p.lat, p.lon) <= radiusKm)
+        },
+    }
+}
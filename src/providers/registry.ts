@@ -0,0 +1,79 @@
+// src/providers/registry.ts
+import { bundledElevationProvider, openElevationProvider, remoteOverBundled, type ElevationProvider } from '../lib/elevation'
+import { bundledPopulationProvider, type PopulationProvider } from '../lib/population'
+import { liveNeoProvider, fixtureNeoProvider, type NeoProvider } from './nasa'
+import { livePlaceProvider, fixturePlaceProvider, type PlaceProvider } from './overpass'
+import { cachedNeoProvider, cachedElevationProvider, cachedPlaceProvider } from './cache'
+
+export type ProviderMode = 'live' | 'cached' | 'fixture'
+
+export type DataProviders = {
+    mode: ProviderMode
+    neo: NeoProvider                  // asteroid feed and lookups
+    elevation: ElevationProvider      // site elevation and coastal grids
+    population: PopulationProvider    // people inside circles and rings
+    places: PlaceProvider             // OSM populated places
+}
+
+// Served from public/fixtures
+export const FIXTURE_BASE_URL = '/fixtures'
+
+const PROVIDER_MODES: ProviderMode[] = ['live', 'cached', 'fixture']
+
+/** Mode used when the URL does not pick one */
+export const DEFAULT_PROVIDER_MODE: ProviderMode = 'cached'
+
+/**
+ * Every data source for one mode.
+ * - live: NASA, Open-Elevation and Overpass on every call
+ * - cached: the same services, remembered per request (NASA and Overpass also across reloads)
+ * - fixture: recorded JSON under `fixtureBaseUrl`; no request leaves the app
+ * Elevation and population always fall back to the bundled grids, which are local in every mode.
+ */
+export function createProviders(mode: ProviderMode, fixtureBaseUrl = FIXTURE_BASE_URL): DataProviders {
+    const remoteElevation = remoteOverBundled(openElevationProvider, bundledElevationProvider)
+    switch (mode) {
+        case 'fixture':
+            return {
+                mode,
+                neo: fixtureNeoProvider(fixtureBaseUrl),
+                elevation: bundledElevationProvider,
+                population: bundledPopulationProvider,
+                places: fixturePlaceProvider(fixtureBaseUrl),
+            }
+        case 'cached':
+            return {
+                mode,
+                neo: cachedNeoProvider(liveNeoProvider),
+                elevation: cachedElevationProvider(remoteElevation),
+                population: bundledPopulationProvider,
+                places: cachedPlaceProvider(livePlaceProvider),
+            }
+        case 'live':
+            return {
+                mode,
+                neo: liveNeoProvider,
+                elevation: remoteElevation,
+                population: bundledPopulationProvider,
+                places: livePlaceProvider,
+            }
+    }
+}
+
+let current = createProviders(DEFAULT_PROVIDER_MODE)
+
+/** Swap in providers at startup, or just the ones a caller wants to replace */
+export function configureProviders(providers: Partial<DataProviders>) {
+    current = { ...current, ...providers }
+}
+
+/** The providers every network or dataset consumer should use */
+export function getProviders(): DataProviders {
+    return current
+}
+
+/** Reads `?data=live|cached|fixture` from a query string */
+export function providerModeFromQuery(search: string): ProviderMode | null {
+    const mode = new URLSearchParams(search).get('data')
+    return PROVIDER_MODES.find(m => m === mode) ?? null
+}
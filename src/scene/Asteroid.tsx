@@ -7,6 +7,8 @@ import { useSimStore } from '../state/useSimStore'
 import { latLonToVector3, simplePathAtTime } from '../lib/kinematics'
 
 const VISUAL_SCALE = 0.2 // <-- 1/5 size
+const EARTH_RADIUS_KM = 6371
+const MIN_CRATER_MARKER = 0.004 // globe units; real craters are sub-pixel at this zoom
 
 const isFiniteVec3 = (v: THREE.Vector3) =>
   Number.isFinite(v.x) && Number.isFinite(v.y) && Number.isFinite(v.z)
@@ -22,6 +24,7 @@ export default function Asteroid() {
   const mitigationPower = useSimStore(s => s.mitigationPower)
   const leadTime = useSimStore(s => s.leadTime)
   const running = useSimStore(s => s.running)
+  const craterKm = useSimStore(s => s.readouts.craterKm)
 
   // target
   const targetLat = useSimStore(s => s.targetLat)
@@ -250,11 +253,12 @@ export default function Asteroid() {
       camera.position.y += (Math.random() - 0.5) * shake
     }
 
-    // ---- CRATER SIZE (red circle) scaled 1/5 ----
-    const asteroidRadius = 0.06 * sizeScale
+    // ---- CRATER SIZE (red circle) from the final crater diameter ----
+    const craterRadius = Math.max((craterKm / 2) / EARTH_RADIUS_KM, MIN_CRATER_MARKER)
 
     if (craterGroupRef.current) {
-      if (impacted && impactLatRef.current != null && impactLonRef.current != null) {
+      // airbursts leave no crater
+      if (impacted && craterKm > 0 && impactLatRef.current != null && impactLonRef.current != null) {
         const hit = latLonToVector3(impactLatRef.current, impactLonRef.current, 1.001) // just above surface
         const nrm = hit.clone().normalize()
         craterGroupRef.current.position.copy(hit)
@@ -264,7 +268,7 @@ export default function Asteroid() {
         craterGroupRef.current.quaternion.copy(quat)
 
         craterGroupRef.current.visible = true
-        craterGroupRef.current.scale.setScalar(asteroidRadius) // 1/5 size via sizeScale
+        craterGroupRef.current.scale.setScalar(craterRadius)
       } else {
         craterGroupRef.current.visible = false
       }
@@ -324,7 +328,7 @@ export default function Asteroid() {
         </mesh>
       </group>
 
-      {/* Crater marker: red disc sized to asteroid contact area (1/5) */}
+      {/* Crater marker: red disc sized to the final crater */}
       <group ref={craterGroupRef} visible={false}>
         <mesh ref={craterMeshRef}>
           <circleGeometry args={[1, 64]} />
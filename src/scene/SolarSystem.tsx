@@ -0,0 +1,136 @@
+// src/scene/SolarSystem.tsx
+import * as THREE from 'three'
+import { Html, Line, OrbitControls } from '@react-three/drei'
+import { useFrame, useThree } from '@react-three/fiber'
+import { useEffect, useMemo, useRef } from 'react'
+import { useSimStore } from '../state/useSimStore'
+import {
+  EARTH_ELEMENTS,
+  dateFromJulian,
+  julianDate,
+  meanMotionDegPerDay,
+  stateAt,
+  type OrbitalElements,
+  type Vec3,
+} from '../lib/orbit'
+
+const UNITS_PER_AU = 2
+const ORBIT_SEGMENTS = 360
+const DAYS_PER_SECOND = 30
+const SOLAR_CAMERA: [number, number, number] = [0, 4.2, 3.2]
+
+// Ecliptic frame (z to the north ecliptic pole) to scene space (y up)
+const toScene = (p: Vec3) => new THREE.Vector3(p.x * UNITS_PER_AU, p.z * UNITS_PER_AU, -p.y * UNITS_PER_AU)
+
+const jdOf = (ymd: string) => julianDate(new Date(ymd + 'T00:00:00Z'))
+
+/** One full revolution, sampled evenly in time from the epoch */
+function orbitPoints(el: OrbitalElements) {
+  const periodDays = 360 / meanMotionDegPerDay(el.semiMajorAxisAU)
+  return Array.from({ length: ORBIT_SEGMENTS + 1 }, (_, k) =>
+    toScene(stateAt(el, el.epochJd + periodDays * k / ORBIT_SEGMENTS).positionAU)
+  )
+}
+
+/**
+ * Heliocentric view of the selected NEO.
+ * - Earth's and the asteroid's orbits are drawn from their elements
+ * - Both bodies loop over the store's `solarRange`
+ * - NASA's close approaches inside the range are marked on the asteroid's path
+ */
+export default function SolarSystem() {
+  const info = useSimStore(s => s.nasaAsteroidData)
+  const range = useSimStore(s => s.solarRange)
+  const elements = info?.orbital.elements ?? null
+
+  const earthRef = useRef<THREE.Mesh>(null!)
+  const asteroidRef = useRef<THREE.Mesh>(null!)
+  const dateRef = useRef<HTMLDivElement>(null)
+  const jdRef = useRef(0)
+
+  const { camera } = useThree()
+
+  // Look down on the ecliptic; put the camera back for the globe on the way out
+  useEffect(() => {
+    const previous = camera.position.clone()
+    camera.position.set(...SOLAR_CAMERA)
+    camera.lookAt(0, 0, 0)
+    return () => {
+      camera.position.copy(previous)
+      camera.lookAt(0, 0, 0)
+    }
+  }, [camera])
+
+  const startJd = jdOf(range.start)
+  const endJd = Math.max(startJd + 1, jdOf(range.end))
+  useEffect(() => { jdRef.current = startJd }, [startJd, endJd])
+
+  const earthOrbit = useMemo(() => orbitPoints(EARTH_ELEMENTS), [])
+  const asteroidOrbit = useMemo(() => elements ? orbitPoints(elements) : null, [elements])
+
+  const markers = useMemo(() => {
+    if (!elements || !info) return []
+    return info.approaches
+      .map(a => ({ ...a, jd: jdOf(a.date) }))
+      .filter(a => a.jd >= startJd && a.jd <= endJd)
+      .map(a => ({ ...a, position: toScene(stateAt(elements, a.jd).positionAU) }))
+  }, [elements, info, startJd, endJd])
+
+  useFrame((_s, dt) => {
+    if (!elements) return
+    let jd = jdRef.current + dt * DAYS_PER_SECOND
+    if (!(jd >= startJd && jd <= endJd)) jd = startJd
+    jdRef.current = jd
+
+    earthRef.current?.position.copy(toScene(stateAt(EARTH_ELEMENTS, jd).positionAU))
+    asteroidRef.current?.position.copy(toScene(stateAt(elements, jd).positionAU))
+    if (dateRef.current) dateRef.current.textContent = dateFromJulian(jd).toISOString().slice(0, 10)
+  })
+
+  if (!elements || !asteroidOrbit) return null
+
+  return (
+    <>
+      <ambientLight intensity={0.25} />
+      <pointLight position={[0, 0, 0]} intensity={2} decay={0} />
+
+      {/* Sun */}
+      <mesh>
+        <sphereGeometry args={[0.12, 32, 32]} />
+        <meshBasicMaterial color="#ffd27a" />
+      </mesh>
+      <Html position={[0, 0.35, 0]} center style={{ pointerEvents: 'none' }}>
+        <div ref={dateRef} className="badge" style={{ whiteSpace: 'nowrap' }} />
+      </Html>
+
+      <Line points={earthOrbit} color="#4da3ff" lineWidth={1} transparent opacity={0.7} />
+      <Line points={asteroidOrbit} color="#ffb067" lineWidth={1} transparent opacity={0.8} />
+
+      <mesh ref={earthRef}>
+        <sphereGeometry args={[0.05, 24, 24]} />
+        <meshStandardMaterial color="#2b6cff" emissive="#224466" emissiveIntensity={0.6} />
+      </mesh>
+      <mesh ref={asteroidRef}>
+        <sphereGeometry args={[0.03, 16, 16]} />
+        <meshStandardMaterial color="#c9b8a6" emissive="#553a22" emissiveIntensity={0.5} />
+      </mesh>
+
+      {markers.map(m => (
+        <group key={m.date} position={m.position}>
+          <mesh>
+            <sphereGeometry args={[0.02, 12, 12]} />
+            <meshBasicMaterial color="#ff6aa2" />
+          </mesh>
+          <Html center position={[0, 0.09, 0]} style={{ pointerEvents: 'none' }}>
+            <div className="small" style={{ whiteSpace: 'nowrap', color: '#ff6aa2' }}>
+              {m.date}
+              {m.missDistanceKm != null && ` · ${Math.round(m.missDistanceKm).toLocaleString()} km`}
+            </div>
+          </Html>
+        </group>
+      ))}
+
+      <OrbitControls enableDamping dampingFactor={0.08} minDistance={1} maxDistance={20} rotateSpeed={0.6} />
+    </>
+  )
+}
@@ -1,10 +1,60 @@
 import { create } from 'zustand'
 import { simplePathAtTime } from '../lib/kinematics'
+import { entrySpeedFromVInfinity } from '../lib/entry'
+import { radiantAltitudeDeg } from '../lib/orbit'
+import type { CraterMorphology } from '../lib/crater'
+import type { ThermalAssessment } from '../lib/thermal'
+import type { BlastAssessment } from '../lib/blast'
+import type { SeismicAssessment } from '../lib/seismic'
+import type { EjectaAssessment } from '../lib/ejecta'
+import type { TsunamiPropagation } from '../lib/tsunami'
+import { computeImpactEffects, type ImpactEffects, type ImpactSite, type Impactor } from '../lib/effects'
+import { runEnsemble, type EnsembleResult } from '../lib/ensemble'
+import type { EconomicLoss } from '../lib/economic'
+import type { ElevationSource } from '../lib/elevation'
+import { inferTargetMaterial, type TargetMaterial, type TargetMaterialMode } from '../lib/target'
 import { ProcessedAsteroidInfo } from '../Fetching/fetchNasa'
+import { getProviders } from '../providers/registry'
 
 /** Public types used elsewhere */
 export type Mitigation = 'kinetic' | 'tractor' | 'laser'
 export type Mode = 'scenario' | 'defend' | 'story' | 'quiz' | 'learn'
+// 'manual': slider / preset value; 'nasa-entry': derived from NASA's v∞
+export type SpeedSource = 'manual' | 'nasa-entry'
+// 'manual': slider, preset or a diameter picked from H; 'nasa': NASA's estimated diameter range
+export type SizeSource = 'manual' | 'nasa'
+// 'earth': geocentric impact scene; 'solar': heliocentric orbits of the selected NEO
+export type ViewMode = 'earth' | 'solar'
+export type DateRange = { start: string; end: string }   // YYYY-MM-DD
+
+const SPEED_MIN_KMS = 5
+const SPEED_MAX_KMS = 100
+const ANGLE_MIN_DEG = 5
+const ANGLE_MAX_DEG = 85
+// Most probable entry angle for asteroids arriving from random directions (Shoemaker 1962)
+const DEFAULT_ENTRY_ANGLE_DEG = 45
+
+const SOLAR_RANGE_DAYS = 365
+
+// The impact point drifts every frame during a run; look its elevation up once it settles
+const SITE_LOOKUP_DELAY_MS = 300
+
+/** Entry angle of a NASA approach at the impact site: the radiant's height, or 45° when it is below the horizon */
+function nasaEntryAngle(data: ProcessedAsteroidInfo, lat: number, lon: number) {
+  const approach = data.closeApproach.propagated
+  const altitude = approach ? radiantAltitudeDeg(approach, lat, lon) : 0
+  const angle = altitude > 0 ? altitude : DEFAULT_ENTRY_ANGLE_DEG
+  return Math.max(ANGLE_MIN_DEG, Math.min(ANGLE_MAX_DEG, angle))
+}
+
+/** A year either side of a date (today when null), as the solar-system view's default range */
+function solarRangeAround(date: string | null): DateRange {
+  const t = date ? Date.parse(date + 'T00:00:00Z') : Date.now()
+  const center = Number.isFinite(t) ? t : Date.now()
+  const ymd = (ms: number) => new Date(ms).toISOString().slice(0, 10)
+  const span = SOLAR_RANGE_DAYS * 24 * 60 * 60 * 1000
+  return { start: ymd(center - span), end: ymd(center + span) }
+}
 
 type AsteroidPreset = {
   id: string
@@ -14,23 +64,21 @@ type AsteroidPreset = {
   density: number
 }
 
-/** Simple energy model (not physically strict) */
-function estimateEnergyMtTNT(size_m: number, density: number, speed_kms: number) {
-  const r = size_m / 2
-  const vol = (4 / 3) * Math.PI * r * r * r
-  const mass = density * vol // kg
-  const v = speed_kms * 1000 // m/s
-  const joules = 0.5 * mass * v * v
-  return joules / 4.184e15 // megatons TNT
-}
-
 type Readouts = {
   speed: number
   size: number
   density: number
   eta: number
   energyTNT: number
+  airburstAltKm: number | null
+  airburstEnergyMt: number
+  groundEnergyMt: number
   craterKm: number
+  craterTransientKm: number
+  craterDepthKm: number
+  craterRimKm: number
+  craterMorphology: CraterMorphology
+  waterCavityKm: number
 }
 
 type SimState = {
@@ -45,6 +93,26 @@ type SimState = {
   density: number
   approachAngle: number
 
+  // Where `size` came from; the ensemble samples NASA's diameter range only while it is applied
+  sizeSource: SizeSource
+  // Where `speed` came from; v∞ is kept alongside the derived entry speed
+  speedSource: SpeedSource
+  vInfinityKms: number | null
+  speedClamped: boolean
+
+  // Surface at the impact site: picked by the user or inferred from elevation
+  targetMaterial: TargetMaterial
+  targetMaterialMode: TargetMaterialMode
+  siteElevationM: number | null
+  siteElevationSource: ElevationSource | null   // where siteElevationM came from; null when set by hand
+
+  // Monte Carlo uncertainty runs, refreshed with the hazards while enabled
+  ensembleEnabled: boolean
+  ensemble: EnsembleResult | null
+
+  // Loss if nothing is done, from the impact map's damage and casualty estimates
+  economicLoss: EconomicLoss | null
+
   mitigation: Mitigation
   mitigationPower: number
   leadTime: number
@@ -56,9 +124,13 @@ type SimState = {
   targetLat: number
   targetLon: number
 
-  blastKm: number
-  seismicKm: number
-  tsunamiKm: number
+  // Every hazard for the current impactor and site; the fields below are slices of it
+  effects: ImpactEffects
+  blast: BlastAssessment
+  seismic: SeismicAssessment
+  tsunami: TsunamiPropagation
+  thermal: ThermalAssessment
+  ejecta: EjectaAssessment
 
   quizVisible: boolean
   quizStopT: number
@@ -85,6 +157,10 @@ type SimState = {
   nasaAsteroidData: ProcessedAsteroidInfo | null
   useNasaData: boolean
 
+  // 3D scene mode and the dates the solar-system view animates over
+  viewMode: ViewMode
+  solarRange: DateRange
+
   /* Core actions */
   tick: (dt: number) => void
   start: () => void
@@ -109,6 +185,11 @@ type SimState = {
   setSpeed: (v: number) => void
   setDensity: (v: number) => void
   setApproachAngle: (v: number) => void
+  setTargetMaterial: (m: TargetMaterial) => void
+  setTargetMaterialMode: (mode: TargetMaterialMode) => void
+  setSiteElevation: (elevationM: number | null) => void
+  setEnsembleEnabled: (on: boolean) => void
+  setEconomicLoss: (loss: EconomicLoss | null) => void
   setNasaAsteroidData: (data: ProcessedAsteroidInfo | null) => void
   setUseNasaData: (use: boolean) => void
   clearNasaData: () => void
@@ -119,6 +200,8 @@ type SimState = {
   showImpactAnalysis: () => void
   startImpactShake: () => void
   clearTargetImpact: () => void
+  setViewMode: (m: ViewMode) => void
+  setSolarRange: (r: DateRange) => void
 
   /* legacy */
   toggleRun: () => void
@@ -131,36 +214,123 @@ type SimState = {
 }
 
 export const useSimStore = create<SimState>((set, get) => {
+  // Inputs the current `effects` were computed from: the same inputs keep the same objects,
+  // so consumers can key their work on `effects` and its parts
+  const inputsKey = (impactor: Impactor, site: ImpactSite) =>
+    [impactor.diameterM, impactor.densityKgM3, impactor.speedKms, impactor.angleDeg, site.target, site.elevationM].join('|')
+  let effectsInputs = ''
+
   const recalcHazards = (
-    n?: Partial<Pick<SimState, 'size' | 'speed' | 'density'>>
+    n?: Partial<Pick<SimState, 'size' | 'speed' | 'density' | 'approachAngle' | 'targetMaterial'>>
   ) => {
     const size = n?.size ?? get().size
     const speed = n?.speed ?? get().speed
     const density = n?.density ?? get().density
-    const E = estimateEnergyMtTNT(size, density, speed)
-    const blastKm = 80 + E * 5
-    const seismicKm = 40 + E * 2
-    const tsunamiKm = 120 + E * 6
-    const craterKm = Math.cbrt(E) * 1.2
+    const approachAngle = n?.approachAngle ?? get().approachAngle
+    const targetMaterial = n?.targetMaterial ?? get().targetMaterial
+    const impactor = { diameterM: size, densityKgM3: density, speedKms: speed, angleDeg: approachAngle }
+    const site = { target: targetMaterial, elevationM: get().siteElevationM }
+    const key = inputsKey(impactor, site)
+    const changed = key !== effectsInputs
+    const effects = changed ? computeImpactEffects(impactor, site) : get().effects
+    effectsInputs = key
+    const { entry, crater } = effects
     const readouts: Readouts = {
       speed,
       size,
       density,
       eta: get().duration - get().time,
-      energyTNT: E,
-      craterKm,
+      energyTNT: effects.energyMt,
+      airburstAltKm: entry.airburstAltitudeKm,
+      airburstEnergyMt: entry.airburstEnergyMt,
+      groundEnergyMt: entry.groundEnergyMt,
+      craterKm: crater.finalDiameterKm,
+      craterTransientKm: crater.transientDiameterKm,
+      craterDepthKm: crater.depthKm,
+      craterRimKm: crater.rimHeightKm,
+      craterMorphology: crater.morphology,
+      waterCavityKm: crater.waterCavityDiameterKm,
     }
-    set({ blastKm, seismicKm, tsunamiKm, readouts })
+    // The loss was priced for the previous effects; the map prices the new ones when it shows them
+    set({
+      effects,
+      blast: effects.blast,
+      seismic: effects.seismic,
+      tsunami: effects.tsunami,
+      thermal: effects.thermal,
+      ejecta: effects.ejecta,
+      readouts,
+      ...(changed ? { economicLoss: null } : {})
+    })
+    if (get().ensembleEnabled) recalcEnsemble({ size, speed, targetMaterial })
+  }
+
+  // Only the latest ensemble run may land; the population count makes each one async
+  let ensembleRequest = 0
+  const recalcEnsemble = (
+    n?: Partial<Pick<SimState, 'size' | 'speed' | 'targetMaterial'>>
+  ) => {
+    const { nasaAsteroidData, sizeSource, siteElevationM, impactLat, impactLon } = get()
+    const size = n?.size ?? get().size
+    const targetMaterial = n?.targetMaterial ?? get().targetMaterial
+    // NASA gives a diameter range; for any other size assume the usual factor-of-two spread
+    const [diameterMinM, diameterMaxM] = nasaAsteroidData && sizeSource === 'nasa'
+      ? [nasaAsteroidData.size.meters.min, nasaAsteroidData.size.meters.max]
+      : [size / Math.SQRT2, size * Math.SQRT2]
+    const request = ++ensembleRequest
+    runEnsemble({
+      diameterMinM,
+      diameterMaxM,
+      speedKms: n?.speed ?? get().speed,
+      site: { target: targetMaterial, elevationM: siteElevationM },
+      lat: impactLat,
+      lon: impactLon,
+    })
+      .then(ensemble => {
+        if (request === ensembleRequest && get().ensembleEnabled) set({ ensemble })
+      })
+      .catch(error => console.error('Failed to run the ensemble:', error))
   }
 
+  // Elevation (and so the auto material and water depth) of wherever the impact point ends up
+  let siteLookup: ReturnType<typeof setTimeout> | undefined
+  const lookupSiteElevation = () => {
+    clearTimeout(siteLookup)
+    siteLookup = setTimeout(() => {
+      const { impactLat, impactLon } = get()
+      getProviders().elevation.elevationAt(impactLat, impactLon)
+        .then(({ elevationM, source }) => {
+          const st = get()
+          if (st.impactLat !== impactLat || st.impactLon !== impactLon) return
+          st.setSiteElevation(elevationM)
+          set({ siteElevationSource: source })
+        })
+        .catch(error => console.error('Failed to look up site elevation:', error))
+    }, SITE_LOOKUP_DELAY_MS)
+  }
+
+  const initialImpactor = { diameterM: 120, densityKgM3: 3000, speedKms: 18, angleDeg: 35 }
+  const initialEffects = computeImpactEffects(initialImpactor, { target: 'sediment', elevationM: null })
+
   const base = {
     time: 0,
     duration: 10,
     running: false,
-    size: 120,
-    speed: 18,
-    density: 3000,
-    approachAngle: 35,
+    size: initialImpactor.diameterM,
+    speed: initialImpactor.speedKms,
+    density: initialImpactor.densityKgM3,
+    approachAngle: initialImpactor.angleDeg,
+    sizeSource: 'manual' as SizeSource,
+    speedSource: 'manual' as SpeedSource,
+    vInfinityKms: null as number | null,
+    speedClamped: false,
+    targetMaterial: 'sediment' as TargetMaterial,
+    targetMaterialMode: 'auto' as TargetMaterialMode,
+    siteElevationM: null as number | null,
+    siteElevationSource: null as ElevationSource | null,
+    ensembleEnabled: false,
+    ensemble: null as EnsembleResult | null,
+    economicLoss: null as EconomicLoss | null,
     mitigation: 'kinetic' as Mitigation,
     mitigationPower: 0.5,
     leadTime: 15,
@@ -168,9 +338,12 @@ export const useSimStore = create<SimState>((set, get) => {
     impactLon: 70,
     targetLat: 40,
     targetLon: -100,
-    blastKm: 0,
-    seismicKm: 0,
-    tsunamiKm: 0,
+    effects: initialEffects,
+    blast: initialEffects.blast,
+    seismic: initialEffects.seismic,
+    tsunami: initialEffects.tsunami,
+    thermal: initialEffects.thermal,
+    ejecta: initialEffects.ejecta,
     quizStopT: 0.96,
     mode: 'scenario' as Mode,
     presets: [
@@ -181,7 +354,12 @@ export const useSimStore = create<SimState>((set, get) => {
       { id: 'iron', name: 'Iron (200 m, 30 km/s)', size: 200, speed: 30, density: 7800 },
     ],
     selectedPresetId: 'small',
-    readouts: { speed: 0, size: 0, density: 0, eta: 0, energyTNT: 0, craterKm: 0 },
+    readouts: {
+      speed: 0, size: 0, density: 0, eta: 0, energyTNT: 0,
+      airburstAltKm: null, airburstEnergyMt: 0, groundEnergyMt: 0,
+      craterKm: 0, craterTransientKm: 0, craterDepthKm: 0, craterRimKm: 0,
+      craterMorphology: 'none' as CraterMorphology, waterCavityKm: 0
+    },
     hasImpacted: false,
     showImpactMap: false,
     isShaking: false,
@@ -191,6 +369,8 @@ export const useSimStore = create<SimState>((set, get) => {
     useTargetImpact: false,
     nasaAsteroidData: null,
     useNasaData: false,
+    viewMode: 'earth' as ViewMode,
+    solarRange: solarRangeAround(null),
     learnVisible: false,
   }
 
@@ -209,6 +389,7 @@ export const useSimStore = create<SimState>((set, get) => {
 
   set(base)
   recalcHazards()
+  lookupSiteElevation()
 
   return {
     ...get(),
@@ -285,6 +466,10 @@ export const useSimStore = create<SimState>((set, get) => {
         size: p.size,
         speed: p.speed,
         density: p.density,
+        sizeSource: 'manual',
+        speedSource: 'manual',
+        vInfinityKms: null,
+        speedClamped: false,
         // Reset shake state for new asteroid
         hasShaken: false,
         isShaking: false,
@@ -295,13 +480,28 @@ export const useSimStore = create<SimState>((set, get) => {
       recalcHazards({ size: p.size, speed: p.speed, density: p.density })
     },
 
-    setImpactLatLon: (lat, lon) => set({ impactLat: lat, impactLon: lon }),
+    setImpactLatLon: (lat, lon) => {
+      const { impactLat, impactLon, siteElevationM, targetMaterialMode, targetMaterial } = get()
+      if (lat === impactLat && lon === impactLon) return
+      set({ impactLat: lat, impactLon: lon, economicLoss: null })
+      // The previous site's elevation, depth and inferred material no longer apply
+      if (siteElevationM !== null) {
+        const m = targetMaterialMode === 'auto' ? inferTargetMaterial(null, lat) : targetMaterial
+        set({ siteElevationM: null, siteElevationSource: null, targetMaterial: m })
+        recalcHazards({ targetMaterial: m })
+      } else if (get().ensembleEnabled) {
+        recalcEnsemble()   // its casualties count the people around the new site
+      }
+      lookupSiteElevation()
+    },
     setTargetLatLon: (lat, lon) => set({
       targetLat: lat,
       targetLon: lon,
       useTargetImpact: true,
     }),
     clearTargetImpact: () => set({ useTargetImpact: false }),
+    setViewMode: (m) => set({ viewMode: m }),
+    setSolarRange: (r) => set({ solarRange: r }),
     hit: () => set({ time: 0, running: true }),
     setMode: (m) => set({ mode: m }),
 
@@ -313,24 +513,62 @@ export const useSimStore = create<SimState>((set, get) => {
     },
     setDuration: (v) => set({ duration: Math.max(0.1, Number.isFinite(v) ? v : 10) }),
 
-    setSize: (v) => { set({ size: v }); recalcHazards({ size: v }) },
-    setSpeed: (v) => { set({ speed: v }); recalcHazards({ speed: v }) },
+    setSize: (v) => { set({ size: v, sizeSource: 'manual' }); recalcHazards({ size: v }) },
+    setSpeed: (v) => {
+      set({ speed: v, speedSource: 'manual', vInfinityKms: null, speedClamped: false })
+      recalcHazards({ speed: v })
+    },
     setDensity: (v) => { set({ density: v }); recalcHazards({ density: v }) },
-    setApproachAngle: (v) => set({ approachAngle: v }),
+    setApproachAngle: (v) => { set({ approachAngle: v }); recalcHazards({ approachAngle: v }) },
+    setTargetMaterial: (m) => {
+      set({ targetMaterial: m, targetMaterialMode: 'manual' })
+      recalcHazards({ targetMaterial: m })
+    },
+    setTargetMaterialMode: (mode) => {
+      const { siteElevationM, impactLat, targetMaterial } = get()
+      const m = mode === 'auto' ? inferTargetMaterial(siteElevationM, impactLat) : targetMaterial
+      set({ targetMaterialMode: mode, targetMaterial: m })
+      recalcHazards({ targetMaterial: m })
+    },
+    setSiteElevation: (elevationM) => {
+      const { targetMaterialMode, targetMaterial, impactLat } = get()
+      const m = targetMaterialMode === 'auto' ? inferTargetMaterial(elevationM, impactLat) : targetMaterial
+      set({ siteElevationM: elevationM, siteElevationSource: null, targetMaterial: m })
+      // Depth matters for water craters even when the material is unchanged
+      recalcHazards({ targetMaterial: m })
+    },
+    setEnsembleEnabled: (on) => {
+      set({ ensembleEnabled: on, ensemble: null })
+      if (on) recalcEnsemble()
+    },
+    setEconomicLoss: (loss) => set({ economicLoss: loss }),
     setNasaAsteroidData: (data) => {
+      const previousId = get().nasaAsteroidData?.basicInfo.id
       set({ nasaAsteroidData: data })
       if (data) {
+        // A density picked for another object (e.g. from its taxonomy) does not carry over
+        const density = data.basicInfo.id === previousId ? get().density : initialImpactor.densityKgM3
         // Update simulation parameters with real NASA data
         const rawSize = (data.size.meters.min + data.size.meters.max) / 2
         const sizeInMeters = Math.max(10, Math.min(1000, rawSize)) // Clamp size to reasonable range
-        const speedInKmS = Math.max(5, Math.min(100, data.speed.kmPerSecond || 20)) // Clamp speed
-        const approachAngle = Math.max(0, Math.min(90, data.orbital.inclinationDegrees || 45)) // Clamp angle
+        // v∞ from the propagated approach (NASA's reported speed without elements); gravity speeds the body up on the way in
+        const vInfinityKms = data.closeApproach.propagated?.speedKms ?? data.speed.kmPerSecond ?? null
+        const entrySpeed = vInfinityKms != null ? entrySpeedFromVInfinity(vInfinityKms) : 20
+        const speedInKmS = Math.max(SPEED_MIN_KMS, Math.min(SPEED_MAX_KMS, entrySpeed)) // Clamp speed
+        const speedClamped = speedInKmS !== entrySpeed
+        const approachAngle = nasaEntryAngle(data, get().impactLat, get().impactLon)
 
         set({
           size: sizeInMeters,
+          sizeSource: 'nasa',
           speed: speedInKmS,
+          density,
           approachAngle: approachAngle,
+          speedSource: vInfinityKms != null ? 'nasa-entry' : 'manual',
+          vInfinityKms,
+          speedClamped,
           useNasaData: true,
+          solarRange: solarRangeAround(data.closeApproach.date),
           // Reset shake state for new asteroid
           hasShaken: false,
           isShaking: false,
@@ -338,22 +576,28 @@ export const useSimStore = create<SimState>((set, get) => {
           hasImpacted: false,
           time: 0
         })
-        recalcHazards({ size: sizeInMeters, speed: speedInKmS })
+        recalcHazards({ size: sizeInMeters, speed: speedInKmS, density, approachAngle })
       }
     },
     setUseNasaData: (use) => set({ useNasaData: use }),
     clearNasaData: () => {
-      set({ nasaAsteroidData: null, useNasaData: false })
+      set({ nasaAsteroidData: null, useNasaData: false, viewMode: 'earth' })
       // Reset to default values
       const defaultSize = 120
       const defaultSpeed = 25
       const defaultAngle = 45
+      const defaultDensity = initialImpactor.densityKgM3
       set({
         size: defaultSize,
+        sizeSource: 'manual',
         speed: defaultSpeed,
-        approachAngle: defaultAngle
+        density: defaultDensity,
+        approachAngle: defaultAngle,
+        speedSource: 'manual',
+        vInfinityKms: null,
+        speedClamped: false
       })
-      recalcHazards({ size: defaultSize, speed: defaultSpeed })
+      recalcHazards({ size: defaultSize, speed: defaultSpeed, density: defaultDensity, approachAngle: defaultAngle })
     },
     setMitigation: (v) => set({ mitigation: v }),
     setMitigationPower: (v) => set({ mitigationPower: v }),
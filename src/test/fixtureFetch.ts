@@ -0,0 +1,28 @@
+// src/test/fixtureFetch.ts
+import feed from '../../public/fixtures/neo/feed.json'
+import browse from '../../public/fixtures/neo/browse.json'
+import eros from '../../public/fixtures/neo/2000433.json'
+import apophis from '../../public/fixtures/neo/2099942.json'
+import bennu from '../../public/fixtures/neo/2101955.json'
+import places from '../../public/fixtures/overpass/places.json'
+import { FIXTURE_BASE_URL } from '../providers/registry'
+
+// Everything under public/fixtures, by path
+const FILES: Record<string, unknown> = {
+    'neo/feed.json': feed,
+    'neo/browse.json': browse,
+    'neo/2000433.json': eros,
+    'neo/2099942.json': apophis,
+    'neo/2101955.json': bennu,
+    'overpass/places.json': places,
+}
+
+/** `fetch` serving public/fixtures the way the dev server does; anything else is a 404 */
+export async function fixtureFetch(input: RequestInfo | URL): Promise<Response> {
+    const url = String(input)
+    const path = url.startsWith(FIXTURE_BASE_URL + '/') ? url.slice(FIXTURE_BASE_URL.length + 1) : null
+    const body = path != null ? FILES[path] : undefined
+    return body === undefined
+        ? new Response(null, { status: 404, statusText: 'Not Found' })
+        : new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' } })
+}
@@ -0,0 +1,150 @@
+// src/ui/ApproachTimeline.tsx
+import { useMemo, useState } from 'react'
+import { useSimStore } from '../state/useSimStore'
+import { withCloseApproach, type ProcessedAsteroidInfo } from '../Fetching/fetchNasa'
+import { KM_PER_LD } from '../lib/orbit'
+
+const GEO_RADIUS_KM = 42_164       // geostationary ring, from Earth's centre
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000
+
+// Plot box (SVG user units)
+const W = 340
+const H = 190
+const M = { left: 46, right: 8, top: 10, bottom: 22 }
+
+const COLORS = { geo: '#ff6b6b', lunar: '#ffa500', far: '#66e0ff' }
+
+type Approach = ProcessedAsteroidInfo['approaches'][number]
+
+const yearOf = (date: string) => 1970 + Date.parse(date + 'T00:00:00Z') / MS_PER_YEAR
+
+function zoneOf(km: number) {
+  if (km <= GEO_RADIUS_KM) return 'geo'
+  if (km <= KM_PER_LD) return 'lunar'
+  return 'far'
+}
+
+// 100k, 1M, 10M … km
+function fmtKm(km: number) {
+  if (km >= 1e9) return `${km / 1e9}B`
+  if (km >= 1e6) return `${km / 1e6}M`
+  if (km >= 1e3) return `${km / 1e3}k`
+  return `${km}`
+}
+
+function yearStep(spanYears: number) {
+  return [1, 2, 5, 10, 20, 25, 50, 100].find(s => spanYears / s <= 6) ?? 200
+}
+
+/**
+ * Every close approach NASA lists on a time axis, miss distance on a log axis.
+ * Approaches inside the geostationary ring or one lunar distance are highlighted;
+ * any of them can be sent to the simulation as the current approach.
+ * `onUse` receives the asteroid re-dated to that approach, so the caller's copy stays in step.
+ */
+export default function ApproachTimeline({ info, onUse }: { info: ProcessedAsteroidInfo; onUse?: (info: ProcessedAsteroidInfo) => void }) {
+  const setNasaAsteroidData = useSimStore(s => s.setNasaAsteroidData)
+  const appliedDate = useSimStore(s =>
+    s.nasaAsteroidData?.basicInfo.id === info.basicInfo.id ? s.nasaAsteroidData.closeApproach.date : null
+  )
+  const [selectedDate, setSelectedDate] = useState<string | null>(info.closeApproach.date)
+
+  const points = useMemo(
+    () => info.approaches.filter((a): a is Approach & { missDistanceKm: number } => a.missDistanceKm != null && a.missDistanceKm > 0),
+    [info]
+  )
+
+  if (points.length === 0) return null
+
+  const years = points.map(p => yearOf(p.date))
+  const now = 1970 + Date.now() / MS_PER_YEAR
+  let x0 = Math.min(...years, now)
+  let x1 = Math.max(...years, now)
+  if (x1 - x0 < 1) { x0 -= 0.5; x1 += 0.5 }
+
+  const logs = points.map(p => Math.log10(p.missDistanceKm))
+  const y0 = Math.floor(Math.min(...logs, Math.log10(GEO_RADIUS_KM)))
+  const y1 = Math.ceil(Math.max(...logs, Math.log10(KM_PER_LD) + 1))
+
+  const sx = (year: number) => M.left + (year - x0) / (x1 - x0) * (W - M.left - M.right)
+  const sy = (km: number) => H - M.bottom - (Math.log10(km) - y0) / (y1 - y0) * (H - M.top - M.bottom)
+
+  const step = yearStep(x1 - x0)
+  const xTicks: number[] = []
+  for (let y = Math.ceil(x0 / step) * step; y <= x1; y += step) xTicks.push(y)
+  const yTicks = Array.from({ length: y1 - y0 + 1 }, (_, i) => 10 ** (y0 + i))
+
+  const selected = points.find(p => p.date === selectedDate) ?? null
+  const nearCount = points.filter(p => p.missDistanceKm <= KM_PER_LD).length
+
+  return (
+    <div style={{ marginTop: 8, marginBottom: 8, padding: 8, borderRadius: 8, background: 'rgba(255,255,255,.04)' }}>
+      <div style={{ fontWeight: 600, marginBottom: 4 }}>
+        Approach Timeline · {points.length} approaches, {nearCount} within 1 LD
+      </div>
+
+      <svg viewBox={`0 0 ${W} ${H}`} width="100%" role="img" aria-label="Close approaches by date and miss distance">
+        {/* Distance grid (log) */}
+        {yTicks.map(km => (
+          <g key={km}>
+            <line x1={M.left} x2={W - M.right} y1={sy(km)} y2={sy(km)} stroke="rgba(255,255,255,.08)" />
+            <text x={M.left - 4} y={sy(km) + 3} fontSize={9} fill="#9aa7bd" textAnchor="end">{fmtKm(km)} km</text>
+          </g>
+        ))}
+        {xTicks.map(y => (
+          <text key={y} x={sx(y)} y={H - 6} fontSize={9} fill="#9aa7bd" textAnchor="middle">{y}</text>
+        ))}
+
+        {/* Reference distances */}
+        <line x1={M.left} x2={W - M.right} y1={sy(KM_PER_LD)} y2={sy(KM_PER_LD)} stroke={COLORS.lunar} strokeDasharray="4 3" />
+        <text x={W - M.right} y={sy(KM_PER_LD) - 3} fontSize={9} fill={COLORS.lunar} textAnchor="end">1 LD</text>
+        <line x1={M.left} x2={W - M.right} y1={sy(GEO_RADIUS_KM)} y2={sy(GEO_RADIUS_KM)} stroke={COLORS.geo} strokeDasharray="4 3" />
+        <text x={W - M.right} y={sy(GEO_RADIUS_KM) - 3} fontSize={9} fill={COLORS.geo} textAnchor="end">GEO</text>
+
+        {/* Today */}
+        <line x1={sx(now)} x2={sx(now)} y1={M.top} y2={H - M.bottom} stroke="rgba(255,255,255,.35)" />
+
+        {points.map(p => {
+          const isSelected = p.date === selectedDate
+          return (
+            <circle
+              key={p.date}
+              cx={sx(yearOf(p.date))}
+              cy={sy(p.missDistanceKm)}
+              r={isSelected ? 5 : 3.5}
+              fill={COLORS[zoneOf(p.missDistanceKm)]}
+              stroke={p.date === appliedDate ? '#ffffff' : 'none'}
+              strokeWidth={1.5}
+              style={{ cursor: 'pointer' }}
+              onClick={() => setSelectedDate(p.date)}
+            >
+              <title>{`${p.date} · ${(p.missDistanceKm / KM_PER_LD).toFixed(2)} LD`}</title>
+            </circle>
+          )
+        })}
+      </svg>
+
+      {selected && (
+        <>
+          <div style={{ fontSize: 15, marginTop: 4 }}>
+            {selected.date}: {(selected.missDistanceKm / KM_PER_LD).toFixed(2)} LD
+            ({Math.round(selected.missDistanceKm).toLocaleString()} km)
+            {selected.speedKms != null && ` · ${selected.speedKms.toFixed(2)} km/s`}
+          </div>
+          <button
+            className="btn"
+            style={{ width: '100%', marginTop: 6 }}
+            disabled={selected.date === appliedDate}
+            onClick={() => {
+              const next = withCloseApproach(info, selected.date)
+              setNasaAsteroidData(next)
+              onUse?.(next)
+            }}
+          >
+            {selected.date === appliedDate ? 'Used in simulation' : 'Use this approach in simulation'}
+          </button>
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 // src/ui/ControlPanel.tsx
 import { useEffect, useMemo } from 'react'
 import { useSimStore } from '../state/useSimStore'
+import { TARGET_MATERIALS, type TargetMaterial } from '../lib/target'
 
 const sv = (n: number | undefined | null, fallback = 0) =>
   Number.isFinite(n as number) ? (n as number) : fallback
@@ -146,6 +147,44 @@ export default function ControlPanel() {
         style={{ opacity: dim }}
       />
 
+      {/* Target surface */}
+      <div className="row"><span className="label">Target Surface</span></div>
+      <select
+        value={s.targetMaterialMode === 'auto' ? 'auto' : s.targetMaterial}
+        onChange={(e) => {
+          const v = e.target.value
+          if (v === 'auto') s.setTargetMaterialMode('auto')
+          else s.setTargetMaterial(v as TargetMaterial)
+        }}
+        disabled={locked}
+        style={{
+          width: '100%',
+          padding: '6px 10px',
+          marginBottom: 12,
+          borderRadius: 8,
+          background: 'rgba(255,255,255,.06)',
+          color: '#e7edf7',
+          border: '1px solid rgba(255,255,255,.08)',
+          opacity: dim
+        }}
+      >
+        <option value="auto">Auto ({TARGET_MATERIALS[s.targetMaterial].label} from elevation)</option>
+        {Object.values(TARGET_MATERIALS).map(t => (
+          <option key={t.material} value={t.material}>{t.label}</option>
+        ))}
+      </select>
+
+      {/* Monte Carlo uncertainty */}
+      <label className="row" style={{ cursor: locked ? 'default' : 'pointer', opacity: dim, marginBottom: 12 }}>
+        <span className="label">Uncertainty Ensemble</span>
+        <input
+          type="checkbox"
+          checked={s.ensembleEnabled}
+          onChange={(e) => s.setEnsembleEnabled(e.target.checked)}
+          disabled={locked}
+        />
+      </label>
+
       {/* Time scrubber */}
       <div className="row"><span className="label">Time</span><span className="value">{timeLabel} / {durationLabel}s</span></div>
       <input
@@ -1,8 +1,61 @@
 import { useSimStore } from '../state/useSimStore'
-import { MapContainer, TileLayer, Circle, useMap } from 'react-leaflet'
+import { MapContainer, TileLayer, Circle, CircleMarker, Rectangle, Tooltip, useMap } from 'react-leaflet'
 import 'leaflet/dist/leaflet.css'
 import { useEffect, useState } from 'react'
-import { assessPopulationDensity, estimateCasualties, type DensityAssessment, type CasualtyEstimate, type TsunamiRisk, type TerrainKind } from '../lib/casualty'
+import { assessPopulationDensity, estimateRingCasualties, type RingCasualtyEstimate, type HazardKind, type DensityAssessment, terrainKind } from '../lib/casualty'
+import { THERMAL_COLORS } from '../lib/thermal'
+import { BLAST_COLORS } from '../lib/blast'
+import { energyClass, type EnergyClass } from '../lib/effects'
+import { outerTsunamiRadiusKm, tsunamiAtDistance, tsunamiRiskLevel, TSUNAMI_REFERENCE_COAST_KM, TSUNAMI_RISK_LABELS } from '../lib/tsunami'
+import { computeInundation, type InundationResult } from '../lib/inundation'
+import { getProviders } from '../providers/registry'
+import { assessDamage, type DamageAssessment } from '../lib/damage'
+import { estimateEconomicLoss, formatUsd } from '../lib/economic'
+import { MMI_COLORS, outerSeismicRadiusKm } from '../lib/seismic'
+import { EJECTA_COLORS, ejectaAtDistance } from '../lib/ejecta'
+import { haversineKm } from '../lib/geo'
+import { TARGET_MATERIALS } from '../lib/target'
+import type { Spread } from '../lib/ensemble'
+
+const HAZARD_LABELS: Record<HazardKind, string> = {
+  crater: 'Crater',
+  blast: 'Air blast',
+  thermal: 'Thermal radiation',
+  seismic: 'Ground shaking',
+  tsunami: 'Tsunami flooding',
+}
+
+// Climate consequences by energy bracket
+const CLIMATE_EFFECTS: Record<EnergyClass, string[]> = {
+  local: [],
+  regional: ['Local weather pattern disruption', 'Agricultural damage in impact zone'],
+  continental: ['Regional climate disruption', 'Crop failure in surrounding regions'],
+  global: ['Global climate impact (nuclear winter)', 'Mass extinction event likely'],
+}
+
+// Human-readable length: metres down to millimetres
+function formatLength(m: number) {
+  if (m >= 1) return `${m.toFixed(1)} m`
+  if (m >= 0.01) return `${(m * 100).toFixed(1)} cm`
+  return `${(m * 1000).toFixed(1)} mm`
+}
+
+// "median (5–95%)" for one ensemble output
+function formatSpread(s: Spread, digits: number, unit = '') {
+  return `${s.median.toFixed(digits)}${unit} (${s.p5.toFixed(digits)}–${s.p95.toFixed(digits)}${unit})`
+}
+
+// Permanent label pinned to the northern edge of a ring
+function RingLabel({ lat, lon, radiusKm, text, color }: { lat: number; lon: number; radiusKm: number; text: string; color: string }) {
+  const north = lat + (radiusKm / 111.32)
+  return (
+    <CircleMarker center={[north, lon]} radius={0} pathOptions={{ opacity: 0 }}>
+      <Tooltip permanent direction="top" offset={[0, -2]}>
+        <span className="ring-label" style={{ color }}>{text}</span>
+      </Tooltip>
+    </CircleMarker>
+  )
+}
 
 interface ImpactMapProps {
   onClose: () => void
@@ -18,13 +71,26 @@ function MapCenter({ lat, lon }: { lat: number; lon: number }) {
 }
 
 export default function ImpactMap({ onClose }: ImpactMapProps) {
-  const { impactLat, impactLon, readouts, setShowImpactMap, pause, size: asteroidSizeFromStore } = useSimStore(s => ({
+  const { effects: impactEffects, impactLat, impactLon, targetLat, targetLon, targetMaterial, targetMaterialMode, siteElevationM: elevation, siteElevationSource: elevationSource, setEconomicLoss, economicLoss, ensemble, readouts, thermal, blast, seismic, ejecta, setShowImpactMap, pause } = useSimStore(s => ({
     impactLat: s.impactLat,
     impactLon: s.impactLon,
+    targetLat: s.targetLat,
+    targetLon: s.targetLon,
+    ejecta: s.ejecta,
+    effects: s.effects,
+    targetMaterial: s.targetMaterial,
+    targetMaterialMode: s.targetMaterialMode,
+    siteElevationM: s.siteElevationM,
+    siteElevationSource: s.siteElevationSource,
+    setEconomicLoss: s.setEconomicLoss,
+    economicLoss: s.economicLoss,
+    ensemble: s.ensemble,
     readouts: s.readouts,
+    thermal: s.thermal,
+    blast: s.blast,
+    seismic: s.seismic,
     setShowImpactMap: s.setShowImpactMap,
-    pause: s.pause,
-    size: s.size
+    pause: s.pause
   }))
 
   const handleClose = () => {
@@ -43,225 +109,148 @@ export default function ImpactMap({ onClose }: ImpactMapProps) {
     onClose()
   }
 
-  const { craterKm, energyTNT, speed, size } = readouts
+  const { craterKm, craterTransientKm, craterDepthKm, craterRimKm, craterMorphology, waterCavityKm, energyTNT, speed, size } = readouts
 
   // Calculate impact zone sizes based on meteorite properties
   // Using scientific formulas for impact effects
   const craterDiameterKm = craterKm
-  const blastRadiusKm = craterDiameterKm * 2.5  // Blast radius (thermal effects)
-  const seismicRadiusKm = craterDiameterKm * 15  // Seismic effects radius
+  const seismicRadiusKm = outerSeismicRadiusKm(seismic)  // Outermost felt-shaking contour
+  const earthquakeMagnitude = seismic.magnitude
+  // The store keeps the same effects objects while the impactor and site are unchanged
+  const tsunami = impactEffects.tsunami
+  const tsunamiLevel = tsunamiRiskLevel(tsunami)
+
+  // Reverse lookup: how much debris lands on the user-selected target
+  const targetEjecta = ejectaAtDistance(ejecta, haversineKm(impactLat, impactLon, targetLat, targetLon))
   
   // Leaflet uses meters for circle radius, so convert km to meters
   const craterRadiusM = (craterDiameterKm / 2) * 1000
-  const blastRadiusM = blastRadiusKm * 1000
-  const seismicRadiusM = seismicRadiusKm * 1000
 
   // Environmental effects state
-  const [elevation, setElevation] = useState<number | null>(null)
   const [terrainType, setTerrainType] = useState<string>('Unknown')
   const [tsunamiRisk, setTsunamiRisk] = useState<string>('Calculating...')
   const [environmentalEffects, setEnvironmentalEffects] = useState<string[]>([])
   
   // Population impact state
   const [densityAssessment, setDensityAssessment] = useState<DensityAssessment | null>(null)
-  const [casualtyEstimate, setCasualtyEstimate] = useState<CasualtyEstimate | null>(null)
-  const [earthquakeMagnitude, setEarthquakeMagnitude] = useState<number>(0)
 
-  // Fetch elevation data
+  // Coastal inundation state
+  const [inundation, setInundation] = useState<InundationResult | null>(null)
+  const [inundationStatus, setInundationStatus] = useState<string>('')
+
+  // Deaths and injuries ring by ring, from the people living in each ring
+  const [ringCasualties, setRingCasualties] = useState<RingCasualtyEstimate | null>(null)
   useEffect(() => {
-    const fetchElevation = async () => {
-      try {
-        const response = await fetch(
-          `https://api.open-elevation.com/api/v1/lookup?locations=${impactLat},${impactLon}`
-        )
-        const data = await response.json()
-        if (data.results && data.results[0]) {
-          const elev = data.results[0].elevation
-          setElevation(elev)
-          analyzeEnvironmentalEffects(elev)
-        }
-      } catch (error) {
-        console.error('Failed to fetch elevation:', error)
-        setElevation(null)
-        setTerrainType('Data unavailable')
-        setTsunamiRisk('Unable to determine')
-      }
-    }
-    
-    fetchElevation()
-  }, [impactLat, impactLon])
+    let alive = true
+    setRingCasualties(null)
+    estimateRingCasualties({ lat: impactLat, lon: impactLon, effects: impactEffects, inundation })
+      .then(r => { if (alive) setRingCasualties(r) })
+      .catch(error => console.error('Failed to estimate casualties by ring:', error))
+    return () => { alive = false }
+  }, [impactLat, impactLon, impactEffects, inundation])
 
-  // Calculate casualties when we have the necessary data
+  // Buildings collapsed or damaged and infrastructure exposed, zone by zone
+  const [damage, setDamage] = useState<DamageAssessment | null>(null)
   useEffect(() => {
-    const calculateCasualties = async () => {
-      if (elevation === null || tsunamiRisk === 'Calculating...' || tsunamiRisk === 'Unable to determine') {
-        return
-      }
+    let alive = true
+    setDamage(null)
+    assessDamage({ lat: impactLat, lon: impactLon, effects: impactEffects })
+      .then(d => { if (alive) setDamage(d) })
+      .catch(error => console.error('Failed to assess damage:', error))
+    return () => { alive = false }
+  }, [impactLat, impactLon, impactEffects])
 
-      try {
-        // Determine terrain type from elevation
-        let terrain: TerrainKind = 'Unknown'
-        if (elevation < 0) terrain = 'Ocean/Sea'
-        else if (elevation < 10) terrain = 'Coastal/Low-lying'
-        else if (elevation < 100) terrain = 'Plains/Valley'
-        else if (elevation < 500) terrain = 'Hills/Plateau'
-        else terrain = 'Mountains'
-
-        // Assess population density
-        const density = await assessPopulationDensity(impactLat, impactLon, terrain)
-        setDensityAssessment(density)
-        
-        // Calculate earthquake magnitude
-        const magnitude = 4 + Math.log10(energyTNT)
-        setEarthquakeMagnitude(magnitude)
-        
-        // Check asteroid size first - if below 24, casualties = 0
-        const asteroidSize = asteroidSizeFromStore
-        if (asteroidSize < 24) {
-          setCasualtyEstimate({
-            density,
-            areaKm2: Math.PI * Math.pow(craterKm / 2 + 0.6 * blastRadiusKm, 2),
-            fatalityRate: 0,
-            casualties: 0
-          })
-          return
-        }
-        
-        // Check if seismic zone touches land
-        const isOceanImpact = terrain === 'Ocean/Sea'
-        
-        if (isOceanImpact) {
-          // For ocean impacts, check if seismic zone could reach land
-          // If impact is in deep ocean far from any coastline, casualties = 0
-          const isDeepOcean = elevation < -1000
-          const isSmallSeismicZone = seismicRadiusKm < 100
-          
-          if (isDeepOcean || isSmallSeismicZone) {
-            // Seismic zone doesn't reach land - hard code to 0 casualties
-            setCasualtyEstimate({
-              density,
-              areaKm2: Math.PI * Math.pow(craterKm / 2 + 0.6 * blastRadiusKm, 2),
-              fatalityRate: 0,
-              casualties: 0
-            })
-          } else {
-            // Seismic zone might reach land - calculate casualties
-            const casualties = estimateCasualties({
-              energyTNT,
-              craterKm,
-              blastRadiusKm,
-              densityPkm2: density.densityPkm2,
-              tsunamiRisk: tsunamiRisk.includes('EXTREME') ? 'EXTREME' :
-                          tsunamiRisk.includes('HIGH') ? 'HIGH' :
-                          tsunamiRisk.includes('MODERATE') ? 'MODERATE' :
-                          tsunamiRisk.includes('LOW') ? 'LOW' : 'NEGLIGIBLE'
-            })
-            setCasualtyEstimate(casualties)
-          }
-        } else {
-          // Land impact - calculate casualties normally
-          const casualties = estimateCasualties({
-            energyTNT,
-            craterKm,
-            blastRadiusKm,
-            densityPkm2: density.densityPkm2,
-            tsunamiRisk: tsunamiRisk.includes('EXTREME') ? 'EXTREME' :
-                        tsunamiRisk.includes('HIGH') ? 'HIGH' :
-                        tsunamiRisk.includes('MODERATE') ? 'MODERATE' :
-                        tsunamiRisk.includes('LOW') ? 'LOW' : 'NEGLIGIBLE'
-          })
-          setCasualtyEstimate(casualties)
-        }
-      } catch (error) {
-        console.error('Failed to calculate casualties:', error)
-      }
+  // Cost of doing nothing, shared with the mitigation panel for cost-benefit comparison
+  useEffect(() => {
+    if (!damage) {
+      setEconomicLoss(null)
+      return
     }
-    
-    calculateCasualties()
-  }, [impactLat, impactLon, energyTNT, craterKm, blastRadiusKm, elevation, tsunamiRisk])
+    let alive = true
+    getProviders().population.regionAt(impactLat, impactLon)
+      .catch(() => null)
+      .then(region => {
+        if (alive) setEconomicLoss(estimateEconomicLoss({ damage, casualties: ringCasualties, region }))
+      })
+    return () => { alive = false }
+  }, [impactLat, impactLon, damage, ringCasualties, setEconomicLoss])
 
-    const analyzeEnvironmentalEffects = (elev: number): TerrainKind => {
+  // Flood low coastal cells around an ocean impact up to the local run-up height
+  useEffect(() => {
+    setInundation(null)
+    if (tsunami.cavityDiameterKm <= 0) {
+      setInundationStatus('')
+      return
+    }
+    let alive = true
+    const halfSizeKm = Math.max(25, Math.min(250, outerTsunamiRadiusKm(tsunami)))
+    setInundationStatus('Mapping coastline...')
+    getProviders().elevation.gridAround(impactLat, impactLon, halfSizeKm, 32)
+      .then(grid => {
+        if (!alive) return
+        setInundation(computeInundation(grid, impactLat, impactLon, tsunami))
+        setInundationStatus('')
+      })
+      .catch(error => {
+        console.error('Failed to map inundation:', error)
+        if (alive) setInundationStatus('Elevation grid unavailable')
+      })
+    return () => { alive = false }
+  }, [impactLat, impactLon, tsunami])
+
+  // Local density and area type at the impact point, shown beside the ring-by-ring casualties
+  useEffect(() => {
+    if (elevation === null) return
+    let alive = true
+    assessPopulationDensity(impactLat, impactLon, terrainKind(elevation, targetMaterial))
+      .then(density => { if (alive) setDensityAssessment(density) })
+      .catch(error => console.error('Failed to assess population density:', error))
+    return () => { alive = false }
+  }, [impactLat, impactLon, elevation, targetMaterial])
+
+  // Terrain, tsunami risk and side effects, from the same numbers as the rings
+  useEffect(() => {
+    if (elevation === null) return
     const effects: string[] = []
-    let terrain: TerrainKind = 'Unknown'
-    let tsunamiRiskValue: string = 'Calculating...'
-    
-    // Determine terrain type
-    if (elev < 0) {
-      terrain = 'Ocean/Sea'
-      setTerrainType('Ocean/Sea')
-      
-      // Ocean impact - high tsunami risk
-      const waterDepth = Math.abs(elev)
-      if (energyTNT > 100) {
-        tsunamiRiskValue = 'EXTREME'
-        setTsunamiRisk('EXTREME - Mega-tsunami expected')
-        effects.push(`Mega-tsunami with waves up to ${(energyTNT * 0.5).toFixed(0)}m high`)
-        effects.push(`Coastal devastation within ${(craterKm * 50).toFixed(0)} km`)
-        effects.push('Widespread flooding of low-lying areas')
-      } else if (energyTNT > 10) {
-        tsunamiRiskValue = 'HIGH'
-        setTsunamiRisk('HIGH - Major tsunami likely')
-        effects.push(`Major tsunami waves up to ${(energyTNT * 0.3).toFixed(0)}m`)
-        effects.push('Significant coastal damage expected')
-      } else {
-        tsunamiRiskValue = 'MODERATE'
-        setTsunamiRisk('MODERATE - Local tsunami possible')
-        effects.push('Local tsunami waves possible')
+    const terrain = terrainKind(elevation, targetMaterial)
+    setTerrainType(terrain)
+    setTsunamiRisk(`${tsunamiLevel} - ${TSUNAMI_RISK_LABELS[tsunamiLevel]}`)
+
+    switch (terrain) {
+      case 'Ocean/Sea': {
+        if (tsunami.cavityDiameterKm > 0) {
+          const coast = tsunamiAtDistance(tsunami, TSUNAMI_REFERENCE_COAST_KM)
+          effects.push(`Waves ${formatLength(tsunami.rimWaveHeightM)} high at the cavity rim, ${formatLength(coast.waveHeightM)} at ${TSUNAMI_REFERENCE_COAST_KM} km`)
+          const outerKm = outerTsunamiRadiusKm(tsunami)
+          if (outerKm > 0) effects.push(`Waves above 1 m out to ${outerKm.toFixed(0)} km`)
+        }
+        effects.push('Massive water displacement')
+        effects.push('Marine ecosystem destruction')
+        break
       }
-      effects.push('Massive water displacement')
-      effects.push('Marine ecosystem destruction')
-      
-    } else if (elev < 10) {
-      terrain = 'Coastal/Low-lying'
-      setTerrainType('Coastal/Low-lying')
-      tsunamiRiskValue = 'MODERATE'
-      setTsunamiRisk('MODERATE - Vulnerable to flooding')
-      effects.push('Severe flooding from displaced water')
-      effects.push('Storm surge-like effects')
-      effects.push('Groundwater contamination')
-      
-    } else if (elev < 100) {
-      terrain = 'Plains/Valley'
-      setTerrainType('Plains/Valley')
-      tsunamiRiskValue = 'LOW'
-      setTsunamiRisk('LOW - Inland location')
-      effects.push('Widespread ground shaking')
-      effects.push('Dust cloud affecting air quality')
-      effects.push('Potential river/lake displacement')
-      
-    } else if (elev < 500) {
-      terrain = 'Hills/Plateau'
-      setTerrainType('Hills/Plateau')
-      tsunamiRiskValue = 'LOW'
-      setTsunamiRisk('VERY LOW - Elevated terrain')
-      effects.push('Seismic landslides possible')
-      effects.push('Regional atmospheric disturbance')
-      
-    } else {
-      terrain = 'Mountains'
-      setTerrainType('Mountains')
-      tsunamiRiskValue = 'NEGLIGIBLE'
-      setTsunamiRisk('NEGLIGIBLE - Mountainous terrain')
-      effects.push('Avalanches and rockslides')
-      effects.push('Valley flooding from melted ice')
-    }
-    
-    // Add energy-based effects
-    if (energyTNT > 1000) {
-      effects.push('Global climate impact (nuclear winter)')
-      effects.push('Mass extinction event likely')
-    } else if (energyTNT > 100) {
-      effects.push('Regional climate disruption')
-      effects.push('Crop failure in surrounding regions')
-    } else if (energyTNT > 10) {
-      effects.push('Local weather pattern disruption')
-      effects.push('Agricultural damage in impact zone')
+      case 'Coastal/Low-lying':
+        effects.push('Severe flooding from displaced water')
+        effects.push('Groundwater contamination')
+        break
+      case 'Plains/Valley':
+        effects.push('Widespread ground shaking')
+        effects.push('Dust cloud affecting air quality')
+        effects.push('Potential river/lake displacement')
+        break
+      case 'Hills/Plateau':
+        effects.push('Seismic landslides possible')
+        effects.push('Regional atmospheric disturbance')
+        break
+      case 'Mountains':
+        effects.push('Avalanches and rockslides')
+        effects.push('Valley flooding from melted ice')
+        break
     }
-    
+    effects.push(...CLIMATE_EFFECTS[energyClass(impactEffects.energyMt)])
+
     // Note: Earthquake magnitude is now displayed separately in the main stats
     setEnvironmentalEffects(effects)
-    return terrain
-  }
+  }, [elevation, targetMaterial, tsunamiLevel, tsunami, impactEffects.energyMt])
 
   return (
     <div className="impact-map-overlay">
@@ -288,32 +277,131 @@ export default function ImpactMap({ onClose }: ImpactMapProps) {
                 
                 <MapCenter lat={impactLat} lon={impactLon} />
                 
-                {/* Seismic effects zone (outermost) - orange dashed */}
-                <Circle
-                  center={[impactLat, impactLon]}
-                  radius={seismicRadiusM}
-                  pathOptions={{
-                    color: '#ff6b35',
-                    fillColor: 'transparent',
-                    fillOpacity: 0,
-                    weight: 3,
-                    dashArray: '10, 5',
-                    opacity: 0.7
-                  }}
-                />
+                {/* Seismic intensity contours (outermost) - dashed, one per MMI level */}
+                {[...seismic.rings].reverse().filter(r => r.radiusKm > 0).map(r => (
+                  <Circle
+                    key={r.mmi}
+                    center={[impactLat, impactLon]}
+                    radius={r.radiusKm * 1000}
+                    pathOptions={{
+                      color: MMI_COLORS[r.mmi] ?? '#ff6b35',
+                      fillColor: 'transparent',
+                      fillOpacity: 0,
+                      weight: 3,
+                      dashArray: '10, 5',
+                      opacity: 0.7
+                    }}
+                  />
+                ))}
+                {seismic.rings.filter(r => r.radiusKm > 0).map(r => (
+                  <RingLabel
+                    key={`label-mmi-${r.mmi}`}
+                    lat={impactLat}
+                    lon={impactLon}
+                    radiusKm={r.radiusKm}
+                    text={`MMI ${r.roman}`}
+                    color={MMI_COLORS[r.mmi] ?? '#ff6b35'}
+                  />
+                ))}
                 
-                {/* Blast/thermal zone - orange filled */}
-                <Circle
-                  center={[impactLat, impactLon]}
-                  radius={blastRadiusM}
-                  pathOptions={{
-                    color: 'rgba(255, 107, 53, 0.6)',
-                    fillColor: 'rgba(255, 107, 53, 0.2)',
-                    fillOpacity: 0.3,
-                    weight: 2,
-                    opacity: 0.8
-                  }}
-                />
+                {/* Tsunami wave contours - cyan, dash-dot */}
+                {[...impactEffects.tsunami.rings].reverse().filter(r => r.radiusKm > 0).map(r => (
+                  <Circle
+                    key={`tsunami-${r.waveHeightM}`}
+                    center={[impactLat, impactLon]}
+                    radius={r.radiusKm * 1000}
+                    pathOptions={{
+                      color: '#66e0ff',
+                      fillColor: 'transparent',
+                      fillOpacity: 0,
+                      weight: 2,
+                      dashArray: '12, 4, 2, 4',
+                      opacity: 0.8
+                    }}
+                  />
+                ))}
+                {impactEffects.tsunami.rings.filter(r => r.radiusKm > 0).map(r => (
+                  <RingLabel
+                    key={`label-tsunami-${r.waveHeightM}`}
+                    lat={impactLat}
+                    lon={impactLon}
+                    radiusKm={r.radiusKm}
+                    text={`${r.waveHeightM} m · ${r.arrivalMin.toFixed(0)} min`}
+                    color="#66e0ff"
+                  />
+                ))}
+
+                {/* Coastal inundation - flooded grid cells, deeper water is more opaque */}
+                {inundation?.cells.map((cell, i) => (
+                  <Rectangle
+                    key={`flood-${i}`}
+                    bounds={[[cell.south, cell.west], [cell.north, cell.east]]}
+                    pathOptions={{
+                      stroke: false,
+                      fillColor: '#1e88e5',
+                      fillOpacity: Math.min(0.7, 0.2 + cell.depthM / 50)
+                    }}
+                  />
+                ))}
+
+                {/* Thermal radiation rings - dotted, outermost first */}
+                {[...thermal.rings].reverse().filter(r => r.radiusKm > 0).map(r => (
+                  <Circle
+                    key={r.effect}
+                    center={[impactLat, impactLon]}
+                    radius={r.radiusKm * 1000}
+                    pathOptions={{
+                      color: THERMAL_COLORS[r.effect],
+                      fillColor: 'transparent',
+                      fillOpacity: 0,
+                      weight: 2,
+                      dashArray: '2, 6',
+                      opacity: 0.9
+                    }}
+                  />
+                ))}
+
+                {/* Ejecta blanket - filled, outermost (thinnest) first */}
+                {[...ejecta.rings].reverse().filter(r => r.radiusKm > 0).map(r => (
+                  <Circle
+                    key={`ejecta-${r.thicknessM}`}
+                    center={[impactLat, impactLon]}
+                    radius={r.radiusKm * 1000}
+                    pathOptions={{
+                      color: EJECTA_COLORS[r.thicknessM] ?? '#8d6e63',
+                      fillColor: EJECTA_COLORS[r.thicknessM] ?? '#8d6e63',
+                      fillOpacity: 0.1,
+                      weight: 1,
+                      opacity: 0.6
+                    }}
+                  />
+                ))}
+
+                {/* Overpressure rings - lightly filled, outermost first */}
+                {[...blast.rings].reverse().filter(r => r.radiusKm > 0).map(r => (
+                  <Circle
+                    key={r.psi}
+                    center={[impactLat, impactLon]}
+                    radius={r.radiusKm * 1000}
+                    pathOptions={{
+                      color: BLAST_COLORS[r.psi] ?? '#ff6b35',
+                      fillColor: BLAST_COLORS[r.psi] ?? '#ff6b35',
+                      fillOpacity: 0.12,
+                      weight: 2,
+                      opacity: 0.8
+                    }}
+                  />
+                ))}
+                {blast.rings.filter(r => r.radiusKm > 0).map(r => (
+                  <RingLabel
+                    key={`label-${r.psi}`}
+                    lat={impactLat}
+                    lon={impactLon}
+                    radiusKm={r.radiusKm}
+                    text={`${r.psi} psi`}
+                    color={BLAST_COLORS[r.psi] ?? '#ff6b35'}
+                  />
+                ))}
                 
                 {/* Main crater - dark red */}
                 <Circle
@@ -355,6 +443,28 @@ export default function ImpactMap({ onClose }: ImpactMapProps) {
                 <div className="stat-label">Asteroid Size</div>
                 <div className="stat-value">{size.toFixed(0)} m</div>
             </div>
+              <div className="stat-item">
+                <div className="stat-label">Crater Type</div>
+                <div className="stat-value" style={{ fontSize: '16px' }}>
+                  {craterMorphology === 'none' ? (waterCavityKm > 0 ? 'No seafloor crater' : 'No crater (airburst)') : `${craterMorphology} (transient ${craterTransientKm.toFixed(2)} km)`}
+                </div>
+              </div>
+              <div className="stat-item">
+                <div className="stat-label">Crater Depth / Rim</div>
+                <div className="stat-value">{(craterDepthKm * 1000).toFixed(0)} m / {(craterRimKm * 1000).toFixed(0)} m</div>
+              </div>
+              <div className="stat-item">
+                <div className="stat-label">Target Surface</div>
+                <div className="stat-value" style={{ fontSize: '16px' }}>
+                  {TARGET_MATERIALS[targetMaterial].label} ({targetMaterialMode === 'auto' ? 'from elevation' : 'manual'})
+                </div>
+              </div>
+              {waterCavityKm > 0 && (
+                <div className="stat-item">
+                  <div className="stat-label">Water Cavity</div>
+                  <div className="stat-value">{waterCavityKm.toFixed(2)} km</div>
+                </div>
+              )}
           </div>
 
             <div className="impact-legend" style={{ marginTop: '24px' }}>
@@ -364,17 +474,173 @@ export default function ImpactMap({ onClose }: ImpactMapProps) {
                   <div className="legend-color crater"></div>
                   <span>Crater: {craterDiameterKm.toFixed(1)} km diameter</span>
                 </div>
-                <div className="legend-item">
-                  <div className="legend-color blast"></div>
-                  <span>Blast Zone: {blastRadiusKm.toFixed(1)} km radius</span>
-                </div>
                 <div className="legend-item">
                   <div className="legend-color seismic"></div>
-                  <span>Seismic Zone: {seismicRadiusKm.toFixed(1)} km radius</span>
+                  <span>Seismic Zone: {seismicRadiusKm > 0 ? `${seismicRadiusKm.toFixed(1)} km radius` : 'no felt shaking'}</span>
+                </div>
+                  </div>
                 </div>
+
+            {/* Ground Shaking Section */}
+            <div className="impact-legend" style={{ marginTop: '24px' }}>
+              <h4>Ground Shaking (Modified Mercalli)</h4>
+              <div className="legend-items">
+                {seismic.rings.map(r => (
+                  <div key={r.mmi} style={{ marginBottom: '8px' }}>
+                    <div className="legend-item">
+                      <div className="legend-color" style={{ background: MMI_COLORS[r.mmi] ?? '#ff6b35' }}></div>
+                      <span>MMI {r.roman}+: {r.radiusKm > 0 ? `${r.radiusKm.toFixed(1)} km radius` : 'not reached'}</span>
+                    </div>
+                    <div style={{ fontSize: '14px', opacity: 0.7, marginLeft: '20px' }}>{r.description}</div>
+                  </div>
+                ))}
                   </div>
                 </div>
 
+            {/* Air Blast Section */}
+            <div className="impact-legend" style={{ marginTop: '24px' }}>
+              <h4>Air Blast{blast.burstAltitudeKm > 0 ? ` (airburst at ${blast.burstAltitudeKm.toFixed(1)} km)` : ''}</h4>
+              <div className="legend-items">
+                {blast.rings.map(r => (
+                  <div key={r.psi} style={{ marginBottom: '8px' }}>
+                    <div className="legend-item">
+                      <div className="legend-color" style={{ background: BLAST_COLORS[r.psi] ?? '#ff6b35' }}></div>
+                      <span>{r.psi} psi · {r.label}: {r.radiusKm > 0 ? `${r.radiusKm.toFixed(1)} km radius` : 'not reached'}</span>
+                    </div>
+                    <div style={{ fontSize: '14px', opacity: 0.7, marginLeft: '20px' }}>{r.damage}</div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Tsunami Section */}
+            {impactEffects.tsunami.cavityDiameterKm > 0 && (
+              <div className="impact-legend" style={{ marginTop: '24px' }}>
+                <h4>Tsunami Propagation</h4>
+                <div className="stats-grid" style={{ marginBottom: '12px' }}>
+                  <div className="stat-item">
+                    <div className="stat-label">Rim Wave Height</div>
+                    <div className="stat-value">{impactEffects.tsunami.rimWaveHeightM.toFixed(0)} m</div>
+                  </div>
+                  <div className="stat-item">
+                    <div className="stat-label">Wave Speed (depth {impactEffects.tsunami.waterDepthM.toFixed(0)} m)</div>
+                    <div className="stat-value">{(impactEffects.tsunami.waveSpeedKms * 3600).toFixed(0)} km/h</div>
+                  </div>
+                </div>
+                <div className="stats-grid" style={{ marginBottom: '12px' }}>
+                  <div className="stat-item">
+                    <div className="stat-label">Flooded Land</div>
+                    <div className="stat-value">
+                      {inundation ? `${inundation.floodedAreaKm2.toFixed(0)} km²` : inundationStatus || '—'}
+                    </div>
+                  </div>
+                  <div className="stat-item">
+                    <div className="stat-label">Max Run-up</div>
+                    <div className="stat-value">{inundation ? `${inundation.maxRunUpM.toFixed(1)} m` : '—'}</div>
+                  </div>
+                </div>
+                <div className="legend-items">
+                  {impactEffects.tsunami.rings.map(r => (
+                    <div className="legend-item" key={r.waveHeightM}>
+                      <div className="legend-color" style={{ background: '#66e0ff' }}></div>
+                      <span>
+                        {r.radiusKm > 0
+                          ? `Wave height ${r.waveHeightM} m at ${r.radiusKm.toFixed(0)} km, arrives at ${r.arrivalMin.toFixed(0)} minutes`
+                          : `Wave height ${r.waveHeightM} m: not reached`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Uncertainty Section */}
+            {ensemble && (
+              <div className="impact-legend" style={{ marginTop: '24px' }}>
+                <h4>Uncertainty Range ({ensemble.runs} runs)</h4>
+                <div style={{ fontSize: '14px', opacity: 0.7, marginBottom: '8px' }}>
+                  Median with 5–95% range, sampling diameter {ensemble.diameterM.p5.toFixed(0)}–{ensemble.diameterM.p95.toFixed(0)} m,
+                  density {ensemble.densityKgM3.p5.toFixed(0)}–{ensemble.densityKgM3.p95.toFixed(0)} kg/m³ and entry angle
+                </div>
+                <div className="stats-grid">
+                  <div className="stat-item">
+                    <div className="stat-label">Energy</div>
+                    <div className="stat-value" style={{ fontSize: '16px' }}>{formatSpread(ensemble.energyMt, 1, ' Mt')}</div>
+                  </div>
+                  <div className="stat-item">
+                    <div className="stat-label">Crater Diameter</div>
+                    <div className="stat-value" style={{ fontSize: '16px' }}>{formatSpread(ensemble.craterKm, 2, ' km')}</div>
+                  </div>
+                  <div className="stat-item">
+                    <div className="stat-label">5 psi Blast Radius</div>
+                    <div className="stat-value" style={{ fontSize: '16px' }}>{formatSpread(ensemble.blast5psiKm, 1, ' km')}</div>
+                  </div>
+                  <div className="stat-item">
+                    <div className="stat-label">1 psi Blast Radius</div>
+                    <div className="stat-value" style={{ fontSize: '16px' }}>{formatSpread(ensemble.blast1psiKm, 1, ' km')}</div>
+                  </div>
+                  <div className="stat-item">
+                    <div className="stat-label">Casualties</div>
+                    <div className="stat-value" style={{ fontSize: '16px' }}>
+                      {formatSpread(ensemble.casualties, 0)}
+                    </div>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Ejecta Section */}
+            <div className="impact-legend" style={{ marginTop: '24px' }}>
+              <h4>Ejecta Blanket</h4>
+              <div className="stats-grid" style={{ marginBottom: '12px' }}>
+                <div className="stat-item">
+                  <div className="stat-label">At Crater Rim</div>
+                  <div className="stat-value">{ejecta.rimThicknessM > 0 ? formatLength(ejecta.rimThicknessM) : 'None'}</div>
+                </div>
+                <div className="stat-item">
+                  <div className="stat-label">At Your Target ({targetEjecta.distanceKm.toFixed(0)} km)</div>
+                  <div className="stat-value" style={{ fontSize: '16px' }}>
+                    {targetEjecta.insideCrater
+                      ? 'Inside the crater'
+                      : targetEjecta.thicknessM >= 0.0001
+                        ? `${formatLength(targetEjecta.thicknessM)} · ${formatLength(targetEjecta.fragmentSizeM)} fragments`
+                        : 'No significant debris'}
+                  </div>
+                </div>
+              </div>
+              <div className="legend-items">
+                {ejecta.rings.map(r => (
+                  <div className="legend-item" key={r.thicknessM}>
+                    <div className="legend-color" style={{ background: EJECTA_COLORS[r.thicknessM] ?? '#8d6e63' }}></div>
+                    <span>{r.label}: {r.radiusKm > 0 ? `${r.radiusKm.toFixed(1)} km radius` : 'not reached'}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Thermal Radiation Section */}
+            <div className="impact-legend" style={{ marginTop: '24px' }}>
+              <h4>Thermal Radiation</h4>
+              <div className="stats-grid" style={{ marginBottom: '12px' }}>
+                <div className="stat-item">
+                  <div className="stat-label">Fireball Radius</div>
+                  <div className="stat-value">{thermal.fireballRadiusKm.toFixed(2)} km</div>
+                </div>
+                <div className="stat-item">
+                  <div className="stat-label">Fireball Duration</div>
+                  <div className="stat-value">{thermal.fireballDurationS.toFixed(2)} s</div>
+                </div>
+              </div>
+              <div className="legend-items">
+                {thermal.rings.map(r => (
+                  <div className="legend-item" key={r.effect}>
+                    <div className="legend-color" style={{ background: THERMAL_COLORS[r.effect] }}></div>
+                    <span>{r.label}: {r.radiusKm > 0 ? `${r.radiusKm.toFixed(1)} km radius` : 'not reached'}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
             {/* Environmental Effects Section */}
             <div className="impact-legend" style={{ marginTop: '24px' }}>
               <h4>Environmental Analysis</h4>
@@ -384,6 +650,11 @@ export default function ImpactMap({ onClose }: ImpactMapProps) {
                   <div className="stat-value">
                     {elevation !== null ? `${elevation.toFixed(0)} m` : 'Loading...'}
                   </div>
+                  {elevationSource && (
+                    <div style={{ fontSize: '11px', opacity: 0.7 }}>
+                      {elevationSource === 'bundled' ? 'Offline 0.5° grid' : 'Open-Elevation'}
+                    </div>
+                  )}
                 </div>
                 <div className="stat-item">
                   <div className="stat-label">Terrain Type</div>
@@ -417,7 +688,7 @@ export default function ImpactMap({ onClose }: ImpactMapProps) {
                          earthquakeMagnitude >= 6 ? '#ffa500' : 
                          earthquakeMagnitude >= 5 ? '#ffeb3b' : '#66ff66'
                 }}>
-                  {earthquakeMagnitude > 0 ? `Magnitude ${earthquakeMagnitude.toFixed(1)}` : 'Calculating...'}
+                  {Number.isFinite(earthquakeMagnitude) ? `Magnitude ${earthquakeMagnitude.toFixed(1)}` : 'No ground shaking (airburst)'}
                 </div>
               </div>
 
@@ -450,41 +721,50 @@ export default function ImpactMap({ onClose }: ImpactMapProps) {
             <div className="impact-legend" style={{ marginTop: '24px' }}>
               <h4>Population Impact Analysis</h4>
               
-              {casualtyEstimate ? (
+              {ringCasualties ? (
                 <>
                   <div className="stat-item" style={{ marginBottom: '16px', padding: '12px', backgroundColor: 'rgba(255, 0, 0, 0.1)', borderRadius: '8px', border: '1px solid rgba(255, 0, 0, 0.3)' }}>
                     <div className="stat-label" style={{ color: '#ff4444', fontWeight: 'bold' }}>Estimated Casualties</div>
                     <div className="stat-value" style={{ fontSize: '24px', color: '#ff0000', fontWeight: 'bold' }}>
-                      {casualtyEstimate.casualties.toLocaleString()} people
+                      {Math.round(ringCasualties.deaths).toLocaleString()} deaths
+                    </div>
+                    <div style={{ fontSize: '14px', opacity: 0.8, marginTop: '4px' }}>
+                      {Math.round(ringCasualties.injuries).toLocaleString()} injured · {Math.round(ringCasualties.exposed).toLocaleString()} people inside the hazard rings
                     </div>
                   </div>
 
-                  <div className="stats-grid" style={{ marginBottom: '12px' }}>
-                <div className="stat-item">
-                      <div className="stat-label">Population Density</div>
-                      <div className="stat-value">
-                        {densityAssessment ? `${Math.round(densityAssessment.densityPkm2)} people/km²` : 'Loading...'}
-                  </div>
-                </div>
-                <div className="stat-item">
-                      <div className="stat-label">Area Type</div>
-                      <div className="stat-value" style={{ fontSize: '16px' }}>
-                        {densityAssessment ? densityAssessment.category : 'Unknown'}
-                </div>
-                    </div>
+                  <div className="legend-items" style={{ marginBottom: '16px' }}>
+                    {ringCasualties.byHazard.map(h => (
+                      <div key={h.hazard} style={{ marginBottom: '8px' }}>
+                        <div className="legend-item">
+                          <span>
+                            <strong>{HAZARD_LABELS[h.hazard]}</strong>: {Math.round(h.deaths).toLocaleString()} deaths · {Math.round(h.injuries).toLocaleString()} injured
+                          </span>
+                        </div>
+                        {ringCasualties.rings
+                          .filter(r => r.hazard === h.hazard && r.population >= 1)
+                          .map(r => (
+                            <div key={r.label} style={{ fontSize: '14px', opacity: 0.7, marginLeft: '20px' }}>
+                              {r.label}
+                              {r.outerKm > 0 ? ` (${r.innerKm.toFixed(1)}–${r.outerKm.toFixed(1)} km)` : ''}
+                              : {Math.round(r.population).toLocaleString()} people, {Math.round(r.deaths).toLocaleString()} deaths, {Math.round(r.injuries).toLocaleString()} injured
+                            </div>
+                          ))}
+                      </div>
+                    ))}
                   </div>
 
                   <div className="stats-grid" style={{ marginBottom: '12px' }}>
                     <div className="stat-item">
-                      <div className="stat-label">Affected Area</div>
+                      <div className="stat-label">Population Density</div>
                       <div className="stat-value">
-                        {casualtyEstimate.areaKm2.toFixed(0)} km²
+                        {densityAssessment ? `${Math.round(densityAssessment.densityPkm2)} people/km²` : 'Loading...'}
                       </div>
                     </div>
-                  <div className="stat-item">
-                      <div className="stat-label">Fatality Rate</div>
-                      <div className="stat-value">
-                        {(casualtyEstimate.fatalityRate * 100).toFixed(1)}%
+                    <div className="stat-item">
+                      <div className="stat-label">Area Type</div>
+                      <div className="stat-value" style={{ fontSize: '16px' }}>
+                        {densityAssessment ? densityAssessment.category : 'Unknown'}
                       </div>
                     </div>
                   </div>
@@ -514,6 +794,105 @@ export default function ImpactMap({ onClose }: ImpactMapProps) {
                   </div>
                 )}
             </div>
+
+            {/* Buildings & Infrastructure Section */}
+            <div className="impact-legend" style={{ marginTop: '24px' }}>
+              <h4>Buildings &amp; Infrastructure</h4>
+              {damage ? (
+                <>
+                  <div className="stats-grid" style={{ marginBottom: '12px' }}>
+                    <div className="stat-item">
+                      <div className="stat-label">Buildings Collapsed</div>
+                      <div className="stat-value">{Math.round(damage.collapsed).toLocaleString()}</div>
+                    </div>
+                    <div className="stat-item">
+                      <div className="stat-label">Buildings Damaged</div>
+                      <div className="stat-value">{Math.round(damage.damaged).toLocaleString()}</div>
+                    </div>
+                  </div>
+                  <div className="stats-grid" style={{ marginBottom: '12px' }}>
+                    <div className="stat-item">
+                      <div className="stat-label">Roads Exposed</div>
+                      <div className="stat-value">{Math.round(damage.roadKm).toLocaleString()} km</div>
+                    </div>
+                    <div className="stat-item">
+                      <div className="stat-label">Bridges Exposed</div>
+                      <div className="stat-value">{Math.round(damage.bridges).toLocaleString()}</div>
+                    </div>
+                    <div className="stat-item">
+                      <div className="stat-label">Power Lines Exposed</div>
+                      <div className="stat-value">{Math.round(damage.powerLineKm).toLocaleString()} km</div>
+                    </div>
+                    <div className="stat-item">
+                      <div className="stat-label">Substations Exposed</div>
+                      <div className="stat-value">{Math.round(damage.substations).toLocaleString()}</div>
+                    </div>
+                  </div>
+                  <div className="legend-items">
+                    {damage.zones.map(z => (
+                      <div key={z.outerKm} style={{ marginBottom: '8px' }}>
+                        <div className="legend-item">
+                          <span>
+                            <strong>{z.label}</strong> ({z.innerKm.toFixed(1)}–{z.outerKm.toFixed(1)} km):{' '}
+                            {(z.collapsedFraction * 100).toFixed(z.collapsedFraction < 0.01 ? 1 : 0)}% collapsed,{' '}
+                            {(z.damagedFraction * 100).toFixed(0)}% damaged
+                          </span>
+                        </div>
+                        <div style={{ fontSize: '14px', opacity: 0.7, marginLeft: '20px' }}>
+                          {Math.round(z.buildings).toLocaleString()} buildings · {Math.round(z.roadKm).toLocaleString()} km roads ·{' '}
+                          {Math.round(z.bridges).toLocaleString()} bridges · {Math.round(z.powerLineKm).toLocaleString()} km power lines ·{' '}
+                          {Math.round(z.substations).toLocaleString()} substations
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  <div style={{ fontSize: '14px', opacity: 0.7, marginTop: '8px' }}>
+                    Building and infrastructure counts are scaled from the population grid with average per-person stock.
+                  </div>
+                </>
+              ) : (
+                <div style={{ opacity: 0.6 }}>Estimating structural damage...</div>
+              )}
+            </div>
+
+            {/* Economic Loss Section */}
+            <div className="impact-legend" style={{ marginTop: '24px' }}>
+              <h4>Economic Loss</h4>
+              {economicLoss ? (
+                <>
+                  <div className="stat-item" style={{ marginBottom: '12px' }}>
+                    <div className="stat-label">Estimated Total Loss</div>
+                    <div className="stat-value" style={{ fontSize: '24px', fontWeight: 'bold' }}>
+                      {formatUsd(economicLoss.totalUsd)}
+                    </div>
+                  </div>
+                  <div className="stats-grid" style={{ marginBottom: '12px' }}>
+                    <div className="stat-item">
+                      <div className="stat-label">Buildings</div>
+                      <div className="stat-value">{formatUsd(economicLoss.buildingsUsd)}</div>
+                    </div>
+                    <div className="stat-item">
+                      <div className="stat-label">Infrastructure</div>
+                      <div className="stat-value">{formatUsd(economicLoss.infrastructureUsd)}</div>
+                    </div>
+                    <div className="stat-item">
+                      <div className="stat-label">Lost Output (1 yr)</div>
+                      <div className="stat-value">{formatUsd(economicLoss.outputUsd)}</div>
+                    </div>
+                    <div className="stat-item">
+                      <div className="stat-label">People Affected</div>
+                      <div className="stat-value">{Math.round(economicLoss.affectedPeople).toLocaleString()}</div>
+                    </div>
+                  </div>
+                  <div style={{ fontSize: '14px', opacity: 0.7 }}>
+                    Valued at {economicLoss.region ?? 'world average'} rates: {formatUsd(economicLoss.value.capitalPerCapitaUsd)} of
+                    buildings and infrastructure and {formatUsd(economicLoss.value.gdpPerCapitaUsd)} of yearly output per person.
+                  </div>
+                </>
+              ) : (
+                <div style={{ opacity: 0.6 }}>Estimating economic loss...</div>
+              )}
+            </div>
           </div>
 
         </div>
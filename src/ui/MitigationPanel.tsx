@@ -1,9 +1,18 @@
 import { useSimStore, Mitigation } from '../state/useSimStore'
+import { formatUsd } from '../lib/economic'
+
+// Rough mission budgets: DART flew for ~$325M; the tractor and laser are concept-study figures
+const MISSION_COST_USD: Record<Mitigation, number> = {
+  kinetic: 325e6,
+  tractor: 1.5e9,
+  laser: 2.5e9,
+}
 
 export default function MitigationPanel(){
   const mitigation = useSimStore(s=>s.mitigation)
   const mitigationPower = useSimStore(s=>s.mitigationPower)
   const leadTime = useSimStore(s=>s.leadTime)
+  const economicLoss = useSimStore(s=>s.economicLoss)
 
   const setMitigation       = useSimStore(s=>s.setMitigation)
   const setMitigationPower  = useSimStore(s=>s.setMitigationPower)
@@ -46,6 +55,22 @@ export default function MitigationPanel(){
       <div className="legend small">
         <span>Δv nudge</span><span>Orbit tug</span><span>Beam ablation</span>
       </div>
+
+      {/* Cost of doing nothing (from the impact map) vs. cost of the mission */}
+      <div className="row" style={{marginTop:10}}>
+        <span className="label">Loss if not deflected</span>
+        <span className="value">{economicLoss ? formatUsd(economicLoss.totalUsd) : 'run an impact first'}</span>
+      </div>
+      <div className="row">
+        <span className="label">Mission cost</span>
+        <span className="value">{formatUsd(MISSION_COST_USD[mitigation])}</span>
+      </div>
+      {economicLoss && (
+        <div className="row">
+          <span className="label">Benefit / cost</span>
+          <span className="value">{(economicLoss.totalUsd / MISSION_COST_USD[mitigation]).toFixed(1)}×</span>
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,70 @@
+// src/ui/SolarViewPanel.tsx
+import { useSimStore } from '../state/useSimStore'
+
+const inputStyle = {
+  padding: '6px 8px',
+  borderRadius: 8,
+  background: 'rgba(255,255,255,.06)',
+  color: '#e7edf7',
+  border: '1px solid rgba(255,255,255,.08)',
+}
+
+/** Date range and close approaches for the solar-system view */
+export default function SolarViewPanel() {
+  const info = useSimStore(s => s.nasaAsteroidData)
+  const range = useSimStore(s => s.solarRange)
+  const setSolarRange = useSimStore(s => s.setSolarRange)
+  if (!info) return null
+
+  const inRange = info.approaches.filter(a => a.date >= range.start && a.date <= range.end)
+
+  return (
+    <div
+      className="panel solar-panel"
+      onMouseDown={(e) => e.stopPropagation()}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="badge">Solar System · {info.basicInfo.name}</div>
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 8, marginTop: 8 }}>
+        <label className="small">
+          From
+          <input
+            type="date"
+            value={range.start}
+            max={range.end}
+            onChange={(e) => e.target.value && setSolarRange({ ...range, start: e.target.value })}
+            style={{ ...inputStyle, width: '100%' }}
+          />
+        </label>
+        <label className="small">
+          To
+          <input
+            type="date"
+            value={range.end}
+            min={range.start}
+            onChange={(e) => e.target.value && setSolarRange({ ...range, end: e.target.value })}
+            style={{ ...inputStyle, width: '100%' }}
+          />
+        </label>
+      </div>
+      <div className="row">
+        <span className="label">Close approaches in range</span>
+        <span className="value">{inRange.length}</span>
+      </div>
+      {inRange.map(a => (
+        <div key={a.date} className="row">
+          <span className="label" style={{ color: '#ff6aa2' }}>{a.date}</span>
+          <span className="value">
+            {a.missDistanceKm != null ? `${Math.round(a.missDistanceKm).toLocaleString()} km` : 'N/A'}
+            {a.speedKms != null && ` · ${a.speedKms.toFixed(1)} km/s`}
+          </span>
+        </div>
+      ))}
+      <div className="legend small">
+        <span style={{ color: '#4da3ff' }}>Earth</span>
+        <span style={{ color: '#ffb067' }}>Asteroid</span>
+        <span style={{ color: '#ff6aa2' }}>Close approach</span>
+      </div>
+    </div>
+  )
+}
@@ -1,21 +1,145 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   preloadAsteroidListOnLoad,
+  fetchAsteroidFeed,
   getAsteroidInfoById,
+  searchAsteroidInfo,
+  describeSearchMiss,
+  withCloseApproach,
+  addDays,
+  daysInRange,
+  FEED_MAX_DAYS,
+  FEED_MAX_RANGE_DAYS,
   type AsteroidListItem,
   type ProcessedAsteroidInfo
 } from '../Fetching/fetchNasa';
 import { useSimStore } from '../state/useSimStore';
+import { entrySpeedFromVInfinity } from '../lib/entry';
+import { kineticEnergyMt } from '../lib/effects';
+import { KM_PER_AU, KM_PER_LD } from '../lib/orbit';
+import { TORINO_COLORS, TORINO_LABELS, assessRiskScales, palermoColor } from '../lib/risk';
+import ApproachTimeline from './ApproachTimeline';
+import { TAXONOMY, densityForAlbedo, diameterFromMagnitude, type TaxonomicClass } from '../lib/taxonomy';
+
+type SortKey = 'name' | 'date' | 'diameter' | 'miss' | 'speed';
+
+// Empty strings mean "no bound"
+type ListFilters = {
+  phaOnly: boolean;
+  minDiameterM: string;
+  maxDiameterM: string;
+  maxMissLd: string;
+  minSpeedKms: string;
+  maxSpeedKms: string;
+};
+
+// A feed entry is one close approach, so an object listed on several dates needs the date too
+const optionValue = (a: AsteroidListItem) => `${a.id}@${a.closeApproachDate}`;
+
+const NO_FILTERS: ListFilters = {
+  phaOnly: false,
+  minDiameterM: '',
+  maxDiameterM: '',
+  maxMissLd: '',
+  minSpeedKms: '',
+  maxSpeedKms: '',
+};
+
+const SORT_LABELS: Record<SortKey, string> = {
+  name: 'Name',
+  date: 'Date',
+  diameter: 'Diameter',
+  miss: 'Miss distance',
+  speed: 'Velocity',
+};
+
+const avgDiameterM = (a: AsteroidListItem) => (a.diameterMinM + a.diameterMaxM) / 2;
+
+const SORT_VALUE: Record<SortKey, (a: AsteroidListItem) => string | number | null> = {
+  name: a => a.name,
+  date: a => a.closeApproachDate,
+  diameter: avgDiameterM,
+  miss: a => a.missDistanceKm,
+  speed: a => a.speedKms,
+};
+
+const bound = (s: string) => {
+  const n = parseFloat(s);
+  return s.trim() !== '' && Number.isFinite(n) ? n : null;
+};
+
+/** Objects passing every filter; a bound on a missing value filters the object out */
+function filterAsteroids(list: AsteroidListItem[], f: ListFilters): AsteroidListItem[] {
+  const minD = bound(f.minDiameterM);
+  const maxD = bound(f.maxDiameterM);
+  const maxMiss = bound(f.maxMissLd);
+  const minV = bound(f.minSpeedKms);
+  const maxV = bound(f.maxSpeedKms);
+  return list.filter(a => {
+    if (f.phaOnly && !a.isPotentiallyHazardous) return false;
+    if (minD !== null && avgDiameterM(a) < minD) return false;
+    if (maxD !== null && avgDiameterM(a) > maxD) return false;
+    if (maxMiss !== null && (a.missDistanceKm === null || a.missDistanceKm / KM_PER_LD > maxMiss)) return false;
+    if (minV !== null && (a.speedKms === null || a.speedKms < minV)) return false;
+    if (maxV !== null && (a.speedKms === null || a.speedKms > maxV)) return false;
+    return true;
+  });
+}
+
+/** Sorted copy; objects without the value go last either way */
+function sortAsteroids(list: AsteroidListItem[], key: SortKey, descending: boolean): AsteroidListItem[] {
+  const value = SORT_VALUE[key];
+  return [...list].sort((a, b) => {
+    const va = value(a);
+    const vb = value(b);
+    if (va === null || vb === null) return va === null ? (vb === null ? 0 : 1) : -1;
+    const c = typeof va === 'string' ? va.localeCompare(vb as string) : va - (vb as number);
+    return descending ? -c : c;
+  });
+}
+
+const todayYmd = () => new Date().toISOString().slice(0, 10);
+
+// Quick ranges for the feed
+const RANGE_PRESETS: Array<{ label: string; range: () => { start: string; end: string } }> = [
+  { label: 'Today', range: () => ({ start: todayYmd(), end: todayYmd() }) },
+  { label: 'Next 7 days', range: () => ({ start: todayYmd(), end: addDays(todayYmd(), FEED_MAX_DAYS - 1) }) },
+  {
+    label: 'This month',
+    range: () => {
+      const now = new Date();
+      const first = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+      const last = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 0));
+      return { start: first.toISOString().slice(0, 10), end: last.toISOString().slice(0, 10) };
+    },
+  },
+];
+
+const fieldStyle: React.CSSProperties = {
+  padding: '6px 8px',
+  borderRadius: 8,
+  background: 'rgba(255, 255, 255, 0.96)',
+  color: '#000000',
+  border: '1px solid rgba(255,255,255,.08)',
+  minWidth: 0,
+};
 
 export default function AsteroidViewer() {
   const [list, setList] = useState<AsteroidListItem[]>([]);
-  const [selectedId, setSelectedId] = useState<string>(''); // no auto-select
+  const [selected, setSelected] = useState<string>(''); // `id@date`, no auto-select
   const [info, setInfo] = useState<ProcessedAsteroidInfo | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showSuccessMessage, setShowSuccessMessage] = useState(false);
   const [activeTab, setActiveTab] = useState<'simple' | 'technical'>('simple');
 
+  // Feed range, filters and sort order
+  const [range, setRange] = useState({ start: todayYmd(), end: todayYmd() });
+  const [filters, setFilters] = useState<ListFilters>(NO_FILTERS);
+  const [sortKey, setSortKey] = useState<SortKey>('name');
+  const [sortDescending, setSortDescending] = useState(false);
+  const [query, setQuery] = useState('');
+
   // Connect to simulation store
   const setNasaAsteroidData = useSimStore(s => s.setNasaAsteroidData);
   const useNasaData = useSimStore(s => s.useNasaData);
@@ -30,8 +154,9 @@ export default function AsteroidViewer() {
         setError(null);
         const items = await preloadAsteroidListOnLoad();
         if (!cancelled) {
-          const sorted = [...items].sort((a, b) => a.name.localeCompare(b.name));
-          setList(sorted);
+          setList(items);
+          // The preload falls back to yesterday when today is empty
+          if (items[0]) setRange({ start: items[0].closeApproachDate, end: items[0].closeApproachDate });
         }
       } catch (err) {
         console.error('Failed to preload:', err);
@@ -45,14 +170,49 @@ export default function AsteroidViewer() {
     };
   }, []);
 
+  const visible = useMemo(
+    () => sortAsteroids(filterAsteroids(list, filters), sortKey, sortDescending),
+    [list, filters, sortKey, sortDescending]
+  );
+
+  const rangeDays = daysInRange(range.start, range.end);
+  const rangeValid = rangeDays >= 1 && rangeDays <= FEED_MAX_RANGE_DAYS;
+
+  // Fetch the feed for a date range
+  const loadRange = async (next: { start: string; end: string }) => {
+    setRange(next);
+    if (daysInRange(next.start, next.end) < 1) return;
+    try {
+      setLoading(true);
+      setError(null);
+      setList(await fetchAsteroidFeed(next.start, next.end));
+      setSelected('');
+    } catch (err) {
+      console.error('Failed to load feed:', err);
+      setError('Failed to load asteroid list.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Move the whole range back or forward by its own length
+  const pageRange = (direction: 1 | -1) => {
+    const shift = direction * Math.max(1, rangeDays);
+    loadRange({ start: addDays(range.start, shift), end: addDays(range.end, shift) });
+  };
+
+  const setFilter = (key: keyof ListFilters, value: string | boolean) =>
+    setFilters(f => ({ ...f, [key]: value }));
+
   // Fetch details when user clicks "Search"
   const onSearch = async () => {
-    if (!selectedId) return;
+    if (!selected) return;
+    const [id, date] = selected.split('@');
     try {
       setLoading(true);
       setError(null);
-      const details = await getAsteroidInfoById(selectedId);
-      setInfo(details);
+      const details = await getAsteroidInfoById(id);
+      setInfo(details && date ? withCloseApproach(details, date) : details);
     } catch (err) {
       console.error('Failed to fetch details:', err);
       setError('Failed to fetch asteroid details.');
@@ -61,6 +221,30 @@ export default function AsteroidViewer() {
     }
   };
 
+  // Resolve a typed name, number or designation ("Apophis", "99942", "2024 YR4")
+  const onFind = async () => {
+    const q = query.trim();
+    if (!q) return;
+    try {
+      setLoading(true);
+      setError(null);
+      const found = await searchAsteroidInfo(q, list);
+      if (!found) {
+        setError(describeSearchMiss(q));
+        return;
+      }
+      // Listed in the feed: show the approach it is listed for
+      const listed = list.find(a => a.id === found.basicInfo.id);
+      setInfo(listed ? withCloseApproach(found, listed.closeApproachDate) : found);
+      setSelected(listed ? optionValue(listed) : '');
+    } catch (err) {
+      console.error('Failed to search asteroids:', err);
+      setError('Failed to search asteroids.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   // Apply button handler
   const onApply = () => {
     if (info) {
@@ -70,6 +254,14 @@ export default function AsteroidViewer() {
     }
   };
 
+  const optionLabel = (a: AsteroidListItem) => [
+    a.name,
+    `${Math.round(avgDiameterM(a))} m`,
+    a.missDistanceKm !== null ? `${(a.missDistanceKm / KM_PER_LD).toFixed(1)} LD` : null,
+    a.speedKms !== null ? `${a.speedKms.toFixed(1)} km/s` : null,
+    rangeDays > 1 ? a.closeApproachDate : null,
+  ].filter(Boolean).join(' · ');
+
   return (
     <div
       className="Nasa Asteriod data nasa-panel"
@@ -84,18 +276,101 @@ export default function AsteroidViewer() {
       onMouseLeave={(e) => e.stopPropagation()}
     >
       {/* Fixed Header */}
-      <div style={{ flexShrink: 0, marginBottom: 12 }}>
-        <h2 style={{ margin: '0 0 12px 0' }}>Today's Asteroid Near Earth</h2>
+      <div
+        style={{ flexShrink: 0, marginBottom: 12 }}
+        onMouseDown={(e) => e.stopPropagation()}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 style={{ margin: '0 0 12px 0' }}>
+          {rangeDays === 1 && range.start === todayYmd() ? "Today's Asteroid Near Earth" : 'Asteroids Near Earth'}
+        </h2>
 
-        <div
-          style={{ display: 'grid', gridTemplateColumns: '1fr auto', gap: 8, marginBottom: 6 }}
-          onMouseDown={(e) => e.stopPropagation()}
-          onClick={(e) => e.stopPropagation()}
+        {/* Lookup by name, number or designation */}
+        <form
+          style={{ display: 'grid', gridTemplateColumns: '1fr auto', gap: 6, marginBottom: 6 }}
+          onSubmit={(e) => { e.preventDefault(); onFind(); }}
         >
+          <input
+            type="search"
+            placeholder="Name or designation, e.g. Apophis, 99942, 2024 YR4"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            style={fieldStyle}
+          />
+          <button className="btn" type="submit" disabled={loading || !query.trim()}>Find</button>
+        </form>
+
+        {/* Date range, paged by its own length */}
+        <div style={{ display: 'flex', gap: 6, marginBottom: 6 }}>
+          {RANGE_PRESETS.map(p => (
+            <button key={p.label} className="btn" disabled={loading} onClick={() => loadRange(p.range())}>
+              {p.label}
+            </button>
+          ))}
+        </div>
+        <div style={{ display: 'grid', gridTemplateColumns: 'auto 1fr 1fr auto auto', gap: 6, marginBottom: 6 }}>
+          <button className="btn" disabled={loading || !rangeValid} onClick={() => pageRange(-1)} title="Previous range">◀</button>
+          <input
+            type="date"
+            value={range.start}
+            onChange={(e) => e.target.value && setRange(r => ({ ...r, start: e.target.value }))}
+            style={fieldStyle}
+          />
+          <input
+            type="date"
+            value={range.end}
+            min={range.start}
+            onChange={(e) => e.target.value && setRange(r => ({ ...r, end: e.target.value }))}
+            style={fieldStyle}
+          />
+          <button className="btn" disabled={loading || !rangeValid} onClick={() => loadRange(range)}>Load</button>
+          <button className="btn" disabled={loading || !rangeValid} onClick={() => pageRange(1)} title="Next range">▶</button>
+        </div>
+        {!rangeValid && (
+          <div style={{ color: '#ff8585', fontSize: 13, marginBottom: 6 }}>
+            Pick an end date on or after the start, at most {FEED_MAX_RANGE_DAYS} days later.
+          </div>
+        )}
+
+        {/* Filters and sorting */}
+        <details style={{ marginBottom: 6 }}>
+          <summary style={{ cursor: 'pointer', fontSize: 14 }}>
+            Filters &amp; sorting · {visible.length} of {list.length} shown
+          </summary>
+          <div style={{ display: 'grid', gridTemplateColumns: 'auto 1fr 1fr', gap: 6, alignItems: 'center', marginTop: 6, fontSize: 13 }}>
+            <span>Diameter (m)</span>
+            <input type="number" min={0} placeholder="min" value={filters.minDiameterM} onChange={(e) => setFilter('minDiameterM', e.target.value)} style={fieldStyle} />
+            <input type="number" min={0} placeholder="max" value={filters.maxDiameterM} onChange={(e) => setFilter('maxDiameterM', e.target.value)} style={fieldStyle} />
+            <span>Velocity (km/s)</span>
+            <input type="number" min={0} placeholder="min" value={filters.minSpeedKms} onChange={(e) => setFilter('minSpeedKms', e.target.value)} style={fieldStyle} />
+            <input type="number" min={0} placeholder="max" value={filters.maxSpeedKms} onChange={(e) => setFilter('maxSpeedKms', e.target.value)} style={fieldStyle} />
+            <span>Miss distance (LD)</span>
+            <span />
+            <input type="number" min={0} placeholder="max" value={filters.maxMissLd} onChange={(e) => setFilter('maxMissLd', e.target.value)} style={fieldStyle} />
+            <label style={{ gridColumn: '1 / -1', display: 'flex', gap: 6, alignItems: 'center', cursor: 'pointer' }}>
+              <input type="checkbox" checked={filters.phaOnly} onChange={(e) => setFilter('phaOnly', e.target.checked)} />
+              Potentially hazardous only
+            </label>
+            <span>Sort by</span>
+            <select value={sortKey} onChange={(e) => setSortKey(e.target.value as SortKey)} style={fieldStyle}>
+              {(Object.keys(SORT_LABELS) as SortKey[]).map(k => (
+                <option key={k} value={k}>{SORT_LABELS[k]}</option>
+              ))}
+            </select>
+            <button className="btn" onClick={() => setSortDescending(d => !d)}>
+              {sortDescending ? 'Descending ↓' : 'Ascending ↑'}
+            </button>
+            <button className="btn" style={{ gridColumn: '1 / -1' }} onClick={() => setFilters(NO_FILTERS)}>
+              Clear filters
+            </button>
+          </div>
+        </details>
+
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr auto', gap: 8, marginBottom: 6 }}>
           <select
-            value={selectedId}
-            onChange={(e) => setSelectedId(e.target.value)}
-            disabled={loading || list.length === 0}
+            value={selected}
+            onChange={(e) => setSelected(e.target.value)}
+            disabled={loading || visible.length === 0}
             size={1}
             style={{
               padding: '8px 10px',
@@ -104,16 +379,15 @@ export default function AsteroidViewer() {
               color: '#000000',
               border: '1px solid rgba(255,255,255,.08)',
               pointerEvents: 'auto',
+              minWidth: 0,
             }}
-            onMouseDown={(e) => e.stopPropagation()}
-            onClick={(e) => e.stopPropagation()}
           >
             <option value="" disabled>
-              {loading ? 'Loading…' : list.length ? 'Select an asteroid…' : 'No asteroids found'}
+              {loading ? 'Loading…' : visible.length ? 'Select an asteroid…' : list.length ? 'No asteroids match the filters' : 'No asteroids found'}
             </option>
-            {list.map((item) => (
-              <option key={item.id} value={item.id} title={item.name}>
-                {item.name}
+            {visible.map((item) => (
+              <option key={optionValue(item)} value={optionValue(item)} title={item.name}>
+                {optionLabel(item)}
               </option>
             ))}
           </select>
@@ -121,8 +395,7 @@ export default function AsteroidViewer() {
           <button
             className="btn"
             onClick={onSearch}
-            disabled={loading || !selectedId}
-            onMouseDown={(e) => e.stopPropagation()}
+            disabled={loading || !selected}
           >
             {loading ? 'Loading...' : 'Search'}
           </button>
@@ -246,17 +519,7 @@ export default function AsteroidViewer() {
               <div style={{ marginBottom: 40 }}>It is {info.closeApproach.missDistanceKm ?? 'N/A'} km !</div>
 
               <div style={{ fontWeight: 600, marginTop: 12, marginBottom: 4 ,color:'#66ff66'}}>Q: Is it going to hit us ?</div>
-              <div style={{
-                marginBottom: 4,
-            
-              }}>
-                Risk Level: {info.impactRisk.riskLevel}
-              </div>
-              {info.impactRisk.probability !== null && (
-                <div style={{ fontSize: 15, marginBottom: 4 }}>
-                  Probability: {(info.impactRisk.probability * 100).toFixed(6)}%
-                </div>
-              )}
+              <RiskScaleReadout info={info} />
 
               <div style={{ fontWeight: 600, marginTop: 12, marginBottom: 4, color:'#66ff66' }}>Q: When will it approach next time?</div>
               {info.impactRisk.nextCloseApproach.date && (
@@ -300,15 +563,31 @@ export default function AsteroidViewer() {
               <div style={{ marginBottom: 4 }}>
                 Min: {info.size.kilometers.min} km | Max: {info.size.kilometers.max} km | Avg: {info.size.kilometers.avg} km
               </div>
+              <DiameterFromMagnitude absoluteMagnitude={info.basicInfo.absoluteMagnitude} />
 
               <div style={{ fontSize: 20, fontWeight: 600, marginTop: 12, marginBottom: 4 }}>Speed of the Asteroid</div>
               <div style={{ marginBottom: 4 }}>km/s: {info.speed.kmPerSecond ?? 'N/A'}</div>
               <div style={{ marginBottom: 4 }}>km/h: {info.speed.kmPerHour ?? 'N/A'}</div>
               <div style={{ marginBottom: 4 }}>mph: {info.speed.milesPerHour ?? 'N/A'}</div>
+              {info.speed.kmPerSecond != null && (
+                <div style={{ fontSize: 15, marginBottom: 4 }}>
+                  Atmospheric entry speed: √(v∞² + 11.2²) = {entrySpeedFromVInfinity(info.speed.kmPerSecond).toFixed(2)} km/s
+                </div>
+              )}
 
               <div style={{ fontSize: 20, fontWeight: 600, marginTop: 12, marginBottom: 4 }}>Close Approach</div>
               <div style={{ marginBottom: 4 }}>Date: {info.closeApproach.date ?? 'N/A'}</div>
               <div style={{ marginBottom: 8 }}>Miss Distance: {info.closeApproach.missDistanceKm ?? 'N/A'} km</div>
+              {info.closeApproach.propagated && (
+                <div style={{ fontSize: 15, marginBottom: 8 }}>
+                  From orbital elements: {Math.round(info.closeApproach.propagated.distanceKm).toLocaleString()} km
+                  · v∞ {info.closeApproach.propagated.speedKms.toFixed(2)} km/s
+                  · arriving from ecliptic λ {info.closeApproach.propagated.radiantLonDeg.toFixed(1)}°,
+                  β {info.closeApproach.propagated.radiantLatDeg.toFixed(1)}°
+                </div>
+              )}
+
+              <ApproachTimeline key={info.basicInfo.id} info={info} onUse={setInfo} />
 
               <div style={{ fontSize: 20, fontWeight: 600, marginTop: 12, marginBottom: 4 }}>Orbital Elements</div>
               <div style={{ fontSize: 15, marginBottom: 4 }}>
@@ -328,19 +607,12 @@ export default function AsteroidViewer() {
               </div>
 
               <div style={{ fontSize: 20, fontWeight: 600, marginTop: 12, marginBottom: 4 }}>Impact Risk Assessment</div>
-              <div style={{
-                marginBottom: 4,
-                color: info.impactRisk.riskLevel === 'HIGH' ? '#ff6b6b' :
-                       info.impactRisk.riskLevel === 'MEDIUM' ? '#ffa500' :
-                       info.impactRisk.riskLevel === 'LOW' ? '#66ff66' : '#999'
-              }}>
-                Risk Level: {info.impactRisk.riskLevel}
+              <div style={{ fontSize: 15, marginBottom: 4 }}>
+                Earth MOID: {info.impactRisk.moidAU !== null
+                  ? `${info.impactRisk.moidAU.toFixed(5)} AU (${Math.round(info.impactRisk.moidAU * KM_PER_AU).toLocaleString()} km)`
+                  : 'N/A'}
               </div>
-              {info.impactRisk.probability !== null && (
-                <div style={{ fontSize: 15, marginBottom: 4 }}>
-                  Impact Probability: {(info.impactRisk.probability * 100).toFixed(6)}%
-                </div>
-              )}
+              <RiskScaleReadout info={info} />
               {info.impactRisk.nextCloseApproach.date && (
                 <div style={{ fontSize: 15, marginBottom: 4 }}>
                   Next Approach: {info.impactRisk.nextCloseApproach.date}
@@ -429,4 +701,100 @@ export default function AsteroidViewer() {
       )}
     </div>
   );
-}
\ No newline at end of file
+}
+
+// Torino and Palermo values for the next approach, with the impact energy worked out like the sim's
+function RiskScaleReadout({ info }: { info: ProcessedAsteroidInfo }) {
+  const density = useSimStore(s => s.density);
+  const { probability, yearsUntilNextApproach, nextCloseApproach } = info.impactRisk;
+
+  if (probability === null || yearsUntilNextApproach === null) {
+    return <div style={{ fontSize: 15, marginBottom: 4 }}>Torino / Palermo: N/A (no upcoming approach to assess)</div>;
+  }
+
+  const diameterM = (info.size.meters.min + info.size.meters.max) / 2;
+  const vInfinityKms = nextCloseApproach.speedKms ?? info.speed.kmPerSecond ?? 0;
+  const energyMt = kineticEnergyMt(diameterM, density, entrySpeedFromVInfinity(vInfinityKms));
+  const scales = assessRiskScales(probability, energyMt, yearsUntilNextApproach);
+
+  const badge = (color: string): React.CSSProperties => ({
+    display: 'inline-block',
+    minWidth: 28,
+    padding: '2px 8px',
+    borderRadius: 6,
+    background: color,
+    color: '#000',
+    fontWeight: 700,
+    textAlign: 'center',
+  });
+
+  return (
+    <div style={{ fontSize: 15, marginBottom: 4 }}>
+      <div style={{ marginBottom: 4 }}>
+        Torino Scale: <span style={badge(TORINO_COLORS[scales.torinoCategory])}>{scales.torino}</span>{' '}
+        {TORINO_LABELS[scales.torinoCategory]}
+      </div>
+      <div style={{ marginBottom: 4 }}>
+        Palermo Scale: <span style={badge(palermoColor(scales.palermo))}>
+          {Number.isFinite(scales.palermo) ? scales.palermo.toFixed(2) : '−∞'}
+        </span>
+      </div>
+      <div>
+        Impact probability: {probability > 0 ? probability.toExponential(2) : '0'}
+        {' '}· {energyMt.toFixed(energyMt < 10 ? 2 : 0)} Mt · in {yearsUntilNextApproach} years
+      </div>
+    </div>
+  );
+}
+
+// Diameter from absolute magnitude H for a chosen taxonomic class or albedo
+function DiameterFromMagnitude({ absoluteMagnitude }: { absoluteMagnitude: number }) {
+  const [cls, setCls] = useState<TaxonomicClass | 'custom'>('X');
+  const [customAlbedo, setCustomAlbedo] = useState(0.14);
+  const setSize = useSimStore(s => s.setSize);
+  const setDensity = useSimStore(s => s.setDensity);
+
+  if (!Number.isFinite(absoluteMagnitude)) return null;
+
+  const albedo = cls === 'custom' ? customAlbedo : TAXONOMY[cls].albedo;
+  const densityKgM3 = cls === 'custom' ? densityForAlbedo(customAlbedo) : TAXONOMY[cls].densityKgM3;
+  const diameterM = diameterFromMagnitude(absoluteMagnitude, albedo);
+  // Same bounds the size slider and setNasaAsteroidData use
+  const simDiameterM = Math.max(10, Math.min(1000, diameterM));
+
+  return (
+    <div style={{ marginTop: 8, marginBottom: 8, padding: 8, borderRadius: 8, background: 'rgba(255,255,255,.04)' }}>
+      <div style={{ fontWeight: 600, marginBottom: 6 }}>Diameter from H = {absoluteMagnitude}</div>
+      <div style={{ display: 'flex', gap: 8, marginBottom: 6 }}>
+        <select value={cls} onChange={(e) => setCls(e.target.value as TaxonomicClass | 'custom')} style={{ ...fieldStyle, flex: 1 }}>
+          {Object.values(TAXONOMY).map(t => (
+            <option key={t.cls} value={t.cls}>{t.label} · p = {t.albedo}</option>
+          ))}
+          <option value="custom">Custom albedo</option>
+        </select>
+        {cls === 'custom' && (
+          <input
+            type="number"
+            min={0.01}
+            max={1}
+            step={0.01}
+            value={customAlbedo}
+            onChange={(e) => setCustomAlbedo(Math.max(0.01, Math.min(1, +e.target.value || 0.01)))}
+            style={{ ...fieldStyle, width: 80 }}
+          />
+        )}
+      </div>
+      <div style={{ fontSize: 15, marginBottom: 4 }}>
+        D = 1329 / √{albedo.toFixed(2)} · 10^(−{absoluteMagnitude}/5) = {diameterM.toFixed(0)} m
+      </div>
+      <div style={{ fontSize: 15, marginBottom: 6 }}>Suggested bulk density: {densityKgM3} kg/m³</div>
+      <button
+        className="btn"
+        onClick={() => { setSize(simDiameterM); setDensity(densityKgM3); }}
+        style={{ width: '100%' }}
+      >
+        Use {simDiameterM.toFixed(0)} m · {densityKgM3} kg/m³ in simulation
+      </button>
+    </div>
+  );
+}
@@ -1,4 +1,8 @@
 import { useSimStore } from "../state/useSimStore";
+import { mmiAtDistance } from "../lib/seismic";
+import { tsunamiAtDistance } from "../lib/tsunami";
+import { outerBlastRadiusKm, type ImpactEffects } from "../lib/effects";
+import { haversineKm } from "../lib/geo";
 
 
 export const FIXED_TARGET = {
@@ -7,25 +11,10 @@ export const FIXED_TARGET = {
   lon: -123.3656,
 };
 
-// Haversine distance (km)
-export function haversineKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 6371;
-  const toRad = (d: number) => (d * Math.PI) / 180;
-  const dLat = toRad(lat2 - lat1);
-  const dLon = toRad(lon2 - lon1);
-  const a =
-    Math.sin(dLat / 2) ** 2 +
-    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
-  const c = 2 * Math.asin(Math.min(1, Math.sqrt(a)));
-  return R * c;
-}
-
 export type HazardInputs = {
   impactLat: number;
   impactLon: number;
-  blastKm: number;
-  seismicKm: number;
-  tsunamiKm: number;
+  effects: ImpactEffects;
   approachAngleDeg?: number;
   // Optional environment hints (unused for now since target is fixed inland)
   targetElevationM?: number;
@@ -34,10 +23,12 @@ export type HazardInputs = {
 
 export type HazardBreakdown = {
   distanceKm: number;
+  targetMmi: number;
   blastRisk: number;
   seismicRisk: number;
   tsunamiRisk: number;
   dominantHazard: 'blast' | 'seismic' | 'tsunami' | 'none';
+  targetWaveHeightM: number;
   killProbability: number;
   isLethal: boolean;
   rationale: string;
@@ -51,6 +42,26 @@ function sigmoidFalloff(distanceKm: number, innerKm: number, outerKm: number): n
   return Math.max(0, Math.min(1, s));
 }
 
+// Fraction of people killed by shaking at a given Mercalli intensity
+function seismicRiskFromMmi(mmi: number): number {
+  if (mmi < 6) return 0;
+  if (mmi < 7) return 0.05;
+  if (mmi < 8) return 0.15;
+  if (mmi < 9) return 0.35;
+  if (mmi < 10) return 0.6;
+  if (mmi < 11) return 0.85;
+  return 1;
+}
+
+// Fraction of people caught at the shore killed by a wave of a given height
+function tsunamiRiskFromHeight(waveHeightM: number): number {
+  if (waveHeightM < 1) return 0;
+  if (waveHeightM < 3) return 0.05;
+  if (waveHeightM < 10) return 0.3;
+  if (waveHeightM < 50) return 0.7;
+  return 0.95;
+}
+
 function seismicAngleModifier(angleDeg?: number): number {
   if (angleDeg == null) return 1;
   if (angleDeg < 20) return 0.85;
@@ -71,22 +82,23 @@ function tsunamiElevationModifier(elevationM?: number): number {
 
 export function assessLethality(inputs: HazardInputs, targetLat: number, targetLon: number): HazardBreakdown {
   const {
-    impactLat, impactLon, blastKm, seismicKm, tsunamiKm,
+    impactLat, impactLon, effects,
     approachAngleDeg, targetElevationM, targetIsCoastal,
   } = inputs;
+  // outer edge of blast damage (window breakage)
+  const blastKm = outerBlastRadiusKm(effects);
+  const { seismic, tsunami } = effects;
 
   const distanceKm = haversineKm(impactLat, impactLon, targetLat, targetLon);
 
   const blastInner = Math.max(1, 0.45 * blastKm);
   const blastOuter = blastKm;
-  const seismicInner = Math.max(1, 0.45 * seismicKm);
-  const seismicOuter = seismicKm;
-  const tsunamiInner = Math.max(1, 0.45 * tsunamiKm);
-  const tsunamiOuter = tsunamiKm;
 
   let blastRisk = sigmoidFalloff(distanceKm, blastInner, blastOuter);
-  let seismicRisk = sigmoidFalloff(distanceKm, seismicInner, seismicOuter);
-  let tsunamiRisk = sigmoidFalloff(distanceKm, tsunamiInner, tsunamiOuter);
+  const targetMmi = mmiAtDistance(seismic, distanceKm);
+  let seismicRisk = seismicRiskFromMmi(targetMmi);
+  const targetWaveHeightM = tsunamiAtDistance(tsunami, distanceKm).waveHeightM;
+  let tsunamiRisk = tsunamiRiskFromHeight(targetWaveHeightM);
 
   seismicRisk *= seismicAngleModifier(approachAngleDeg);
   tsunamiRisk *= tsunamiCoastalModifier(targetIsCoastal);
@@ -113,10 +125,12 @@ export function assessLethality(inputs: HazardInputs, targetLat: number, targetL
 
   return {
     distanceKm: Number(distanceKm.toFixed(2)),
+    targetMmi: Number(targetMmi.toFixed(1)),
     blastRisk: Number(blastRisk.toFixed(2)),
     seismicRisk: Number(seismicRisk.toFixed(2)),
     tsunamiRisk: Number(tsunamiRisk.toFixed(2)),
     dominantHazard,
+    targetWaveHeightM: Number(targetWaveHeightM.toFixed(1)),
     killProbability: Number(killProbability.toFixed(2)),
     isLethal,
     rationale,
@@ -130,9 +144,7 @@ export function assessFixedTarget(): HazardBreakdown {
     {
       impactLat: s.impactLat,
       impactLon: s.impactLon,
-      blastKm: s.blastKm,
-      seismicKm: s.seismicKm,
-      tsunamiKm: s.tsunamiKm,
+      effects: s.effects,
       approachAngleDeg: s.approachAngle,
       // Since Victoria is coastal but has varied elevation, you can tune:
       // targetIsCoastal: true,